@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "requestHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_fromAccountId_idempotencyKey_key" ON "Transaction"("fromAccountId", "idempotencyKey");
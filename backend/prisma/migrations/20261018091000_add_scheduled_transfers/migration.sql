@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ScheduleStatus" AS ENUM ('SCHEDULED', 'PROCESSING', 'EXECUTED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ScheduledTransfer" (
+    "id" TEXT NOT NULL,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountNumber" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "urgency" "Urgency" NOT NULL DEFAULT 'NORMAL',
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" "ScheduleStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "transactionId" TEXT,
+    "failureReason" TEXT,
+    "executedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledTransfer_transactionId_key" ON "ScheduledTransfer"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_status_scheduledFor_idx" ON "ScheduledTransfer"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_fromAccountId_idx" ON "ScheduledTransfer"("fromAccountId");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransfer" ADD CONSTRAINT "ScheduledTransfer_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransfer" ADD CONSTRAINT "ScheduledTransfer_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
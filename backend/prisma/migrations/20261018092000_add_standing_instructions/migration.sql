@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "Frequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'CRON');
+
+-- CreateEnum
+CREATE TYPE "InstructionStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "InstalmentStatus" AS ENUM ('SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "StandingInstruction" (
+    "id" TEXT NOT NULL,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountNumber" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "frequency" "Frequency" NOT NULL,
+    "cronExpression" TEXT,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "maxInstalments" INTEGER,
+    "instalmentsPaid" INTEGER NOT NULL DEFAULT 0,
+    "instalmentsFailed" INTEGER NOT NULL DEFAULT 0,
+    "maxRetries" INTEGER NOT NULL DEFAULT 3,
+    "retryCount" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "retryAt" TIMESTAMP(3),
+    "claimedAt" TIMESTAMP(3),
+    "status" "InstructionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "lastFailureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StandingInstruction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StandingInstructionRun" (
+    "id" TEXT NOT NULL,
+    "instructionId" TEXT NOT NULL,
+    "instalment" INTEGER NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" "InstalmentStatus" NOT NULL,
+    "transactionId" TEXT,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StandingInstructionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StandingInstruction_status_nextRunAt_idx" ON "StandingInstruction"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "StandingInstruction_fromAccountId_idx" ON "StandingInstruction"("fromAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StandingInstructionRun_transactionId_key" ON "StandingInstructionRun"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "StandingInstructionRun_instructionId_idx" ON "StandingInstructionRun"("instructionId");
+
+-- AddForeignKey
+ALTER TABLE "StandingInstruction" ADD CONSTRAINT "StandingInstruction_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StandingInstructionRun" ADD CONSTRAINT "StandingInstructionRun_instructionId_fkey" FOREIGN KEY ("instructionId") REFERENCES "StandingInstruction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StandingInstructionRun" ADD CONSTRAINT "StandingInstructionRun_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "BeneficiaryStatus" AS ENUM ('PENDING_OTP', 'ACTIVE', 'REMOVED');
+
+-- CreateTable
+CREATE TABLE "Beneficiary" (
+    "id" TEXT NOT NULL,
+    "ownerAccountId" TEXT NOT NULL,
+    "beneficiaryAccountId" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "nickname" TEXT NOT NULL,
+    "verifiedName" TEXT NOT NULL,
+    "status" "BeneficiaryStatus" NOT NULL DEFAULT 'PENDING_OTP',
+    "activatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Beneficiary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Beneficiary_ownerAccountId_idx" ON "Beneficiary"("ownerAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Beneficiary_ownerAccountId_beneficiaryAccountId_key" ON "Beneficiary"("ownerAccountId", "beneficiaryAccountId");
+
+-- AddForeignKey
+ALTER TABLE "Beneficiary" ADD CONSTRAINT "Beneficiary_ownerAccountId_fkey" FOREIGN KEY ("ownerAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Beneficiary" ADD CONSTRAINT "Beneficiary_beneficiaryAccountId_fkey" FOREIGN KEY ("beneficiaryAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
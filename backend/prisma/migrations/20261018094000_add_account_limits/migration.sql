@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "AccountLimit" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "customerPerTransaction" DECIMAL(15,2),
+    "customerDailyAmount" DECIMAL(15,2),
+    "customerDailyCount" INTEGER,
+    "adminPerTransaction" DECIMAL(15,2),
+    "adminDailyAmount" DECIMAL(15,2),
+    "adminDailyCount" INTEGER,
+    "adminUpdatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountLimit_accountId_key" ON "AccountLimit"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "AccountLimit" ADD CONSTRAINT "AccountLimit_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "authorisedById" TEXT,
+ADD COLUMN     "reversalOfId" TEXT,
+ADD COLUMN     "reversalReason" TEXT,
+ADD COLUMN     "reversedAmount" DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Transaction_reversalOfId_idx" ON "Transaction"("reversalOfId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_authorisedById_fkey" FOREIGN KEY ("authorisedById") REFERENCES "Account"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "GlAccountType" AS ENUM ('ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "JournalKind" AS ENUM ('OPENING_DEPOSIT', 'RESERVE', 'RELEASE', 'TRANSFER', 'REVERSAL', 'FEE', 'INTEREST', 'ADJUSTMENT');
+
+-- CreateEnum
+CREATE TYPE "PostingDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- AlterTable
+ALTER TABLE "LedgerEntry" ALTER COLUMN "transactionId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "GlAccount" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "GlAccountType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GlAccount_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateTable
+CREATE TABLE "Journal" (
+    "id" TEXT NOT NULL,
+    "kind" "JournalKind" NOT NULL,
+    "transactionId" TEXT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Journal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Posting" (
+    "id" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "accountId" TEXT,
+    "glCode" TEXT,
+    "direction" "PostingDirection" NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Posting_pkey" PRIMARY KEY ("id"),
+    -- Exactly one of customer account / GL account, positive amount
+    CONSTRAINT "Posting_single_target_check" CHECK (("accountId" IS NULL) <> ("glCode" IS NULL)),
+    CONSTRAINT "Posting_amount_positive_check" CHECK ("amount" > 0)
+);
+
+-- CreateIndex
+CREATE INDEX "Journal_transactionId_idx" ON "Journal"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Journal_kind_idx" ON "Journal"("kind");
+
+-- CreateIndex
+CREATE INDEX "Posting_journalId_idx" ON "Posting"("journalId");
+
+-- CreateIndex
+CREATE INDEX "Posting_accountId_idx" ON "Posting"("accountId");
+
+-- CreateIndex
+CREATE INDEX "Posting_glCode_idx" ON "Posting"("glCode");
+
+-- AddForeignKey
+ALTER TABLE "Journal" ADD CONSTRAINT "Journal_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Posting" ADD CONSTRAINT "Posting_journalId_fkey" FOREIGN KEY ("journalId") REFERENCES "Journal"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Posting" ADD CONSTRAINT "Posting_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Posting" ADD CONSTRAINT "Posting_glCode_fkey" FOREIGN KEY ("glCode") REFERENCES "GlAccount"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed internal GL accounts
+INSERT INTO "GlAccount" ("code", "name", "type") VALUES
+    ('BANK_CAPITAL', 'Bank Capital', 'EQUITY'),
+    ('SUSPENSE', 'Settlement Suspense', 'LIABILITY'),
+    ('FEE_INCOME', 'Fee Income', 'INCOME'),
+    ('INTEREST_EXPENSE', 'Interest Expense', 'EXPENSE');
+
+-- Backfill: one opening journal per existing account so postings match current balances
+-- (available funds credited to the customer, reserved funds held in suspense)
+INSERT INTO "Journal" ("id", "kind", "description")
+SELECT 'migration-opening-' || "id", 'OPENING_DEPOSIT', 'Opening balance (migrated)'
+FROM "Account"
+WHERE "balance" <> 0 OR "reservedAmount" <> 0;
+
+INSERT INTO "Posting" ("id", "journalId", "glCode", "direction", "amount")
+SELECT gen_random_uuid()::text, 'migration-opening-' || "id", 'BANK_CAPITAL',
+    CASE WHEN "balance" > 0 THEN 'DEBIT'::"PostingDirection" ELSE 'CREDIT'::"PostingDirection" END,
+    ABS("balance")
+FROM "Account"
+WHERE "balance" <> 0;
+
+INSERT INTO "Posting" ("id", "journalId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::text, 'migration-opening-' || "id", "id",
+    CASE WHEN "balance" > 0 THEN 'CREDIT'::"PostingDirection" ELSE 'DEBIT'::"PostingDirection" END,
+    ABS("balance")
+FROM "Account"
+WHERE "balance" <> 0;
+
+INSERT INTO "Posting" ("id", "journalId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::text, 'migration-opening-' || "id", "id", 'DEBIT', "reservedAmount"
+FROM "Account"
+WHERE "reservedAmount" > 0;
+
+INSERT INTO "Posting" ("id", "journalId", "glCode", "direction", "amount")
+SELECT gen_random_uuid()::text, 'migration-opening-' || "id", 'SUSPENSE', 'CREDIT', "reservedAmount"
+FROM "Account"
+WHERE "reservedAmount" > 0;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "feeAmount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "feeRule" TEXT,
+ADD COLUMN     "feeWaiver" TEXT;
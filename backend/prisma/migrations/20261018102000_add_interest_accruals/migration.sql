@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "InterestAccrual" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "accrualDate" DATE NOT NULL,
+    "period" TEXT NOT NULL,
+    "closingBalance" DECIMAL(15,2) NOT NULL,
+    "annualRate" DECIMAL(6,3) NOT NULL,
+    "amount" DECIMAL(15,6) NOT NULL,
+    "journalId" TEXT,
+    "capitalisedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InterestAccrual_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterestAccrual_accountId_accrualDate_key" ON "InterestAccrual"("accountId", "accrualDate");
+
+-- CreateIndex
+CREATE INDEX "InterestAccrual_period_capitalisedAt_idx" ON "InterestAccrual"("period", "capitalisedAt");
+
+-- AddForeignKey
+ALTER TABLE "InterestAccrual" ADD CONSTRAINT "InterestAccrual_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN     "overdraftEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "overdraftLimit" DECIMAL(15,2);
+
+-- Overdraft interest is income for the bank
+INSERT INTO "GlAccount" ("code", "name", "type") VALUES
+    ('INTEREST_INCOME', 'Interest Income', 'INCOME');
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "PayoutBatchStatus" AS ENUM ('PROCESSING', 'COMPLETED', 'PARTIAL', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "PayoutRowStatus" AS ENUM ('INVALID', 'ENQUEUED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "status" "PayoutBatchStatus" NOT NULL DEFAULT 'PROCESSING',
+    "totalRows" INTEGER NOT NULL,
+    "validRows" INTEGER NOT NULL,
+    "totalAmount" DECIMAL(15,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutRow" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "fromAccountNumber" TEXT NOT NULL,
+    "toAccountNumber" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "urgency" "Urgency" NOT NULL DEFAULT 'NORMAL',
+    "reference" TEXT,
+    "status" "PayoutRowStatus" NOT NULL,
+    "errors" TEXT[],
+    "transactionId" TEXT,
+
+    CONSTRAINT "PayoutRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayoutBatch_status_idx" ON "PayoutBatch"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutRow_transactionId_key" ON "PayoutRow"("transactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutRow_batchId_rowNumber_key" ON "PayoutRow"("batchId", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "PayoutBatch" ADD CONSTRAINT "PayoutBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutRow" ADD CONSTRAINT "PayoutRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutRow" ADD CONSTRAINT "PayoutRow_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PaymentRequestStatus" AS ENUM ('PENDING', 'PAID', 'DECLINED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "PaymentRequest" (
+    "id" TEXT NOT NULL,
+    "requesterAccountId" TEXT NOT NULL,
+    "payerAccountId" TEXT NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "note" TEXT,
+    "status" "PaymentRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentRequest_transactionId_key" ON "PaymentRequest"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "PaymentRequest_payerAccountId_status_idx" ON "PaymentRequest"("payerAccountId", "status");
+
+-- CreateIndex
+CREATE INDEX "PaymentRequest_requesterAccountId_status_idx" ON "PaymentRequest"("requesterAccountId", "status");
+
+-- AddForeignKey
+ALTER TABLE "PaymentRequest" ADD CONSTRAINT "PaymentRequest_requesterAccountId_fkey" FOREIGN KEY ("requesterAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentRequest" ADD CONSTRAINT "PaymentRequest_payerAccountId_fkey" FOREIGN KEY ("payerAccountId") REFERENCES "Account"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentRequest" ADD CONSTRAINT "PaymentRequest_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "reference" TEXT,
+ADD COLUMN     "remark" TEXT;
+
+-- Backfill references for existing transfers (same shape as generateReference())
+UPDATE "Transaction"
+SET "reference" = 'NXS' || to_char("createdAt", 'YYMMDD') || upper(substr(md5("id"), 1, 10));
+
+ALTER TABLE "Transaction" ALTER COLUMN "reference" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_reference_key" ON "Transaction"("reference");
+
+-- AlterTable
+ALTER TABLE "ScheduledTransfer" ADD COLUMN     "remark" TEXT;
+
+-- AlterTable
+ALTER TABLE "StandingInstruction" ADD COLUMN     "remark" TEXT;
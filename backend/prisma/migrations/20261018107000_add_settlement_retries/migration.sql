@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "deadLetteredAt" TIMESTAMP(3),
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Transaction_deadLetteredAt_idx" ON "Transaction"("deadLetteredAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "PriorityPolicy" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "urgencyWeights" JSONB NOT NULL,
+    "tierWeights" JSONB NOT NULL,
+    "urgencyCoefficient" DOUBLE PRECISION NOT NULL,
+    "tierCoefficient" DOUBLE PRECISION NOT NULL,
+    "riskCoefficient" DOUBLE PRECISION NOT NULL,
+    "agingFactor" DOUBLE PRECISION NOT NULL,
+    "maxAgeSeconds" INTEGER,
+    "lanesEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "laneWeights" JSONB NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriorityPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriorityPolicy_version_key" ON "PriorityPolicy"("version");
+
+-- AddForeignKey
+ALTER TABLE "PriorityPolicy" ADD CONSTRAINT "PriorityPolicy_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "Account"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "slaBreachedAt" TIMESTAMP(3),
+ADD COLUMN     "slaDeadline" TIMESTAMP(3),
+ADD COLUMN     "slaWarnAt" TIMESTAMP(3),
+ADD COLUMN     "slaWarnedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SlaDailyMetric" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "urgency" "Urgency" NOT NULL,
+    "tier" "Tier" NOT NULL,
+    "settled" INTEGER NOT NULL DEFAULT 0,
+    "settledWithinSla" INTEGER NOT NULL DEFAULT 0,
+    "settledLate" INTEGER NOT NULL DEFAULT 0,
+    "breaches" INTEGER NOT NULL DEFAULT 0,
+    "totalWaitSeconds" INTEGER NOT NULL DEFAULT 0,
+    "maxWaitSeconds" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaDailyMetric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_slaDeadline_idx" ON "Transaction"("slaDeadline");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaDailyMetric_date_urgency_tier_key" ON "SlaDailyMetric"("date", "urgency", "tier");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "feeRefunded" DECIMAL(15,2) NOT NULL DEFAULT 0;
@@ -1,9 +1,20 @@
 import { PrismaClient, Role, Tier } from '@prisma/client';
 import bcrypt from 'bcrypt';
 import { Decimal } from '@prisma/client/runtime/library';
+import { accountService } from '../src/services/account.service';
 
 const prisma = new PrismaClient();
 
+/**
+ * Give seeded balances a double-entry opening journal (skipped on re-runs)
+ */
+async function postOpeningIfMissing(accountId: string, balance: Decimal) {
+    const posted = await prisma.posting.count({ where: { accountId } });
+    if (posted === 0) {
+        await accountService.postOpeningDeposit(prisma, accountId, balance);
+    }
+}
+
 async function seed() {
     console.log('🌱 Seeding database...');
 
@@ -29,6 +40,8 @@ async function seed() {
         },
     });
 
+    await postOpeningIfMissing(admin.id, admin.balance);
+
     console.log('✅ Admin account created:');
     console.log(`   Account Number: ${admin.accountNumber}`);
     console.log(`   Name: ${admin.fullName}`);
@@ -82,6 +95,8 @@ async function seed() {
             },
         });
 
+        await postOpeningIfMissing(customer.id, customer.balance);
+
         console.log(`✅ Customer account: ${customer.accountNumber} (${customer.tier})`);
     }
 
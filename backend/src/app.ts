@@ -4,9 +4,14 @@ import { createServer } from 'http';
 import { config, validateConfig } from './config';
 import prisma from './config/database';
 import redis from './config/redis';
-import { initWebSocket } from './websocket';
+import { initWebSocket, enableRedisAdapter, closeRedisAdapter } from './websocket';
+import { leaderService } from './services/leader.service';
 import { startTimelockWorker, stopTimelockWorker } from './workers/timelock.worker';
 import { startQueueWorker, stopQueueWorker } from './workers/queue.worker';
+import { startSettlementWorker, stopSettlementWorker } from './workers/settlement.worker';
+import { startScheduleWorker, stopScheduleWorker } from './workers/schedule.worker';
+import { startStandingInstructionWorker, stopStandingInstructionWorker } from './workers/standing.worker';
+import { startInterestWorker, stopInterestWorker } from './workers/interest.worker';
 
 // Controllers
 import adminController from './controllers/admin.controller';
@@ -66,6 +71,12 @@ async function shutdown() {
 
     stopTimelockWorker();
     stopQueueWorker();
+    stopSettlementWorker();
+    stopScheduleWorker();
+    stopStandingInstructionWorker();
+    stopInterestWorker();
+    await leaderService.stop();
+    await closeRedisAdapter();
 
     await prisma.$disconnect();
     await redis.quit();
@@ -82,13 +93,26 @@ async function start() {
         // Connect to Redis
         await redis.connect();
 
+        // Cluster-wide websocket emits (in-process if disabled or unavailable)
+        await enableRedisAdapter();
+
         // Test database connection
         await prisma.$connect();
         console.log('✅ Database connected');
 
-        // Start workers
+        // Join leader election, then start workers (each idles unless we hold its lease;
+        // the queue leader rebuilds Redis queues from Postgres when it takes over)
+        await leaderService.start();
         startTimelockWorker();
         startQueueWorker();
+        startScheduleWorker();
+        startStandingInstructionWorker();
+        if (config.autoSettlement.enabled) {
+            startSettlementWorker();
+        }
+        if (config.interest.enabled) {
+            startInterestWorker();
+        }
 
         // Start HTTP server
         httpServer.listen(config.port, () => {
@@ -4,6 +4,20 @@ import path from 'path';
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
+/**
+ * Fee rule - first rule whose urgency/tier match (omitted = any) applies
+ * FLAT: value in ₹; PERCENT: value in % of amount, clamped to [min, max]
+ */
+export interface FeeRule {
+    id: string;
+    urgency?: 'NORMAL' | 'EMI' | 'MEDICAL';
+    tier?: 'BASIC' | 'PREMIUM' | 'VIP';
+    type: 'FLAT' | 'PERCENT';
+    value: number;
+    min?: number;
+    max?: number;
+}
+
 export const config = {
     // Server
     port: parseInt(process.env.PORT || '3000', 10),
@@ -42,6 +56,113 @@ export const config = {
     // Priority Queue
     agingFactor: parseFloat(process.env.AGING_FACTOR || '0.1'),
 
+    // Priority formula defaults (version 0); admins publish new versions at runtime
+    priority: {
+        urgencyCoefficient: 2.0,
+        tierCoefficient: 1.5,
+        riskCoefficient: 0.5,
+        maxAgeSeconds: process.env.PRIORITY_MAX_AGE_SECONDS
+            ? parseInt(process.env.PRIORITY_MAX_AGE_SECONDS, 10)
+            : null,
+        // Per-urgency lanes drained by weighted round-robin (weights = slots per cycle)
+        lanesEnabled: process.env.PRIORITY_LANES === 'true',
+        laneWeights: {
+            NORMAL: 1,
+            EMI: 2,
+            MEDICAL: 4,
+        },
+        // How long an instance trusts its cached copy of the active policy
+        cacheMs: 5000,
+    },
+
+    // Auto-settlement (worker drains QUEUED items; PENDING_MANUAL still needs an admin)
+    autoSettlement: {
+        enabled: process.env.AUTO_SETTLEMENT === 'true',
+        intervalMs: parseInt(process.env.AUTO_SETTLEMENT_INTERVAL_MS || '2000', 10),
+        batchSize: parseInt(process.env.AUTO_SETTLEMENT_BATCH_SIZE || '10', 10),
+    },
+
+    // Settlement retries: transient errors (e.g. DB) back off exponentially,
+    // then the transaction is dead-lettered for an admin
+    settlementRetry: {
+        maxAttempts: parseInt(process.env.SETTLEMENT_MAX_ATTEMPTS || '5', 10),
+        baseDelayMs: parseInt(process.env.SETTLEMENT_RETRY_BASE_MS || '2000', 10),
+        maxDelayMs: parseInt(process.env.SETTLEMENT_RETRY_MAX_MS || '300000', 10),
+    },
+
+    // WebSocket fan-out across instances via Redis pub/sub; disable for in-process only
+    websocket: {
+        redisAdapter: process.env.WS_REDIS_ADAPTER !== 'false',
+    },
+
+    // Queue controls: while settlement is paused new transfers are either accepted and
+    // held (HOLD) or refused (REJECT); during a drain they are always refused
+    queueControl: {
+        whilePaused: (process.env.PAUSED_TRANSFERS === 'REJECT' ? 'REJECT' : 'HOLD') as 'HOLD' | 'REJECT',
+    },
+
+    // Settlement SLA: target seconds from creation to completion, by urgency then tier
+    sla: {
+        targetSeconds: {
+            NORMAL: { BASIC: 4 * 3600, PREMIUM: 2 * 3600, VIP: 3600 },
+            EMI: { BASIC: 3600, PREMIUM: 1800, VIP: 900 },
+            MEDICAL: { BASIC: 900, PREMIUM: 600, VIP: 300 },
+        },
+        // queue:sla_warning once this share of the target has elapsed
+        warningFraction: parseFloat(process.env.SLA_WARNING_FRACTION || '0.8'),
+    },
+
+    // Leader election: with several instances, only each worker's lease holder
+    // runs it; a dead leader's lease expires after leaseTtlMs
+    leaderElection: {
+        instanceId: process.env.INSTANCE_ID || '',
+        leaseTtlMs: parseInt(process.env.LEADER_LEASE_TTL_MS || '15000', 10),
+        renewIntervalMs: parseInt(process.env.LEADER_RENEW_INTERVAL_MS || '5000', 10),
+    },
+
+    // Beneficiaries: transfers to a payee added within the cooling-off window are
+    // either capped (CAP) or always time-locked (TIMELOCK)
+    beneficiaries: {
+        coolingOffHours: parseInt(process.env.BENEFICIARY_COOLING_OFF_HOURS || '24', 10),
+        coolingOffMode: (process.env.BENEFICIARY_COOLING_OFF_MODE === 'CAP' ? 'CAP' : 'TIMELOCK') as 'CAP' | 'TIMELOCK',
+        coolingOffMaxAmount: parseFloat(process.env.BENEFICIARY_COOLING_OFF_MAX_AMOUNT || '5000'),
+        required: process.env.REQUIRE_BENEFICIARY === 'true',
+    },
+
+    // Standing instructions (EMI)
+    standingInstructions: {
+        maxRetries: parseInt(process.env.SI_MAX_RETRIES || '3', 10),
+        retryIntervalMinutes: parseInt(process.env.SI_RETRY_INTERVAL_MINUTES || '60', 10),
+    },
+
+    // Savings interest: accrued daily on the closing balance, credited monthly
+    interest: {
+        enabled: process.env.INTEREST_ACCRUAL !== 'false',
+        intervalMs: parseInt(process.env.INTEREST_INTERVAL_MS || '3600000', 10),
+        dayCountBasis: 365,
+        // Days the worker back-fills after downtime
+        maxCatchUpDays: 31,
+        // % per annum by tier
+        annualRates: {
+            BASIC: parseFloat(process.env.INTEREST_RATE_BASIC || '3'),
+            PREMIUM: parseFloat(process.env.INTEREST_RATE_PREMIUM || '3.5'),
+            VIP: parseFloat(process.env.INTEREST_RATE_VIP || '4'),
+        },
+    },
+
+    // Payment requests ("request money")
+    paymentRequests: {
+        defaultExpiryHours: parseInt(process.env.PAYMENT_REQUEST_EXPIRY_HOURS || '72', 10),
+        maxExpiryHours: 30 * 24,
+        // Open requests one customer may have outstanding (limits spam)
+        maxPendingPerRequester: 20,
+    },
+
+    // Bulk payouts (admin)
+    payouts: {
+        maxRows: parseInt(process.env.PAYOUT_MAX_ROWS || '1000', 10),
+    },
+
     // Frontend
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
 
@@ -58,6 +179,41 @@ export const config = {
         VIP: 4,
     },
 
+    // Default transfer limits per tier (admins can override per account)
+    tierLimits: {
+        BASIC: { perTransaction: 25000, dailyAmount: 50000, dailyCount: 10 },
+        PREMIUM: { perTransaction: 100000, dailyAmount: 200000, dailyCount: 25 },
+        VIP: { perTransaction: 500000, dailyAmount: 1000000, dailyCount: 50 },
+    },
+
+    // Transfer fees
+    fees: {
+        rules: [
+            { id: 'emi-flat', urgency: 'EMI', type: 'FLAT', value: 5 },
+            { id: 'vip-free', tier: 'VIP', type: 'FLAT', value: 0 },
+            { id: 'premium-percent', tier: 'PREMIUM', type: 'PERCENT', value: 0.1, min: 2, max: 25 },
+            { id: 'basic-percent', tier: 'BASIC', type: 'PERCENT', value: 0.25, min: 5, max: 50 },
+        ] as FeeRule[],
+        // Urgencies never charged
+        waivedUrgencies: ['MEDICAL'] as string[],
+        // Transfers per calendar month (UTC) charged nothing, by tier
+        freeTransfersPerMonth: {
+            BASIC: 3,
+            PREMIUM: 10,
+            VIP: 0,
+        },
+    },
+
+    // Overdraft: opt-in per account; limit defaults by tier (0 = not offered), admins can override
+    overdraft: {
+        annualRate: parseFloat(process.env.OVERDRAFT_RATE || '18'),
+        tierLimits: {
+            BASIC: 0,
+            PREMIUM: 25000,
+            VIP: 100000,
+        },
+    },
+
     // Minimum balance to maintain based on tier
     tierReserves: {
         BASIC: 100,
@@ -1,5 +1,6 @@
-import Redis from 'ioredis';
+import Redis, { Result } from 'ioredis';
 import { config } from './index';
+import { LUA_SCRIPTS } from './scripts';
 
 // Create Redis client
 const redis = new Redis(config.redisUrl, {
@@ -11,6 +12,82 @@ const redis = new Redis(config.redisUrl, {
     },
 });
 
+// Atomic queue / time-lock operations (see config/scripts.ts)
+for (const [name, script] of Object.entries(LUA_SCRIPTS)) {
+    redis.defineCommand(name, { numberOfKeys: script.numberOfKeys, lua: script.lua });
+}
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        queueEnqueue(
+            queueKey: string,
+            dataKey: string,
+            laneKey: string,
+            id: string,
+            score: number,
+            basePriority: number,
+            createdAt: string,
+            createdAtMs: number,
+            urgency: string
+        ): Result<number, Context>;
+        queueDequeue(
+            queueKey: string,
+            retryKey: string,
+            deadLetterKey: string,
+            dataKey: string,
+            laneNormal: string,
+            laneEmi: string,
+            laneMedical: string,
+            id: string
+        ): Result<number, Context>;
+        queuePark(
+            queueKey: string,
+            retryKey: string,
+            targetKey: string,
+            laneNormal: string,
+            laneEmi: string,
+            laneMedical: string,
+            id: string,
+            score: number
+        ): Result<number, Context>;
+        queueSetBase(dataKey: string, basePriority: number): Result<number, Context>;
+        queueLaneTop(
+            cursorKey: string,
+            laneNormal: string,
+            laneEmi: string,
+            laneMedical: string,
+            schedule: string,
+            count: number
+        ): Result<string[], Context>;
+        queueClaimTop(
+            numberOfKeys: number,
+            ...keysThenArgs: (string | number)[]
+        ): Result<string | null, Context>;
+        queueReageAll(
+            numberOfKeys: number,
+            ...keysThenArgs: (string | number)[]
+        ): Result<number, Context>;
+        queuePromote(
+            retryKey: string,
+            queueKey: string,
+            dataKey: string,
+            laneNormal: string,
+            laneEmi: string,
+            laneMedical: string,
+            id: string,
+            nowMs: number,
+            agingFactor: number,
+            maxAgeSeconds: number,
+            urgencyNormal: string,
+            urgencyEmi: string,
+            urgencyMedical: string
+        ): Result<number, Context>;
+        timelockUnlockDue(heapKey: string, nowSeconds: number, limit: number): Result<string[], Context>;
+        leaseAcquire(leaseKey: string, owner: string, ttlMs: number): Result<number, Context>;
+        leaseRelease(leaseKey: string, owner: string): Result<number, Context>;
+    }
+}
+
 redis.on('connect', () => {
     console.log('✅ Redis connected');
 });
@@ -19,13 +96,25 @@ redis.on('error', (err) => {
     console.error('❌ Redis error:', err.message);
 });
 
+// Urgency of each lane key in REDIS_KEYS.PRIORITY_LANES
+export const LANE_URGENCIES = ['NORMAL', 'EMI', 'MEDICAL'] as const;
+
 // Redis keys constants
 export const REDIS_KEYS = {
     PRIORITY_QUEUE: 'zset:priority_queue',
+    PRIORITY_LANE: (urgency: string) => `zset:priority_lane:${urgency}`, // One per urgency, same scores as PRIORITY_QUEUE
+    // All lanes in the order the scripts expect them (see LANE_URGENCIES)
+    PRIORITY_LANES: ['zset:priority_lane:NORMAL', 'zset:priority_lane:EMI', 'zset:priority_lane:MEDICAL'] as const,
+    LANE_CURSOR: 'counter:lane_cursor',             // Position in the weighted round-robin cycle
     TIMELOCK_HEAP: 'zset:timelock_heap',
+    RETRY_QUEUE: 'zset:retry_queue',    // Score = time the next attempt is due (ms)
+    DEAD_LETTER: 'zset:dead_letter',    // Score = time it was dead-lettered (ms)
     TXN_DATA: (id: string) => `hash:txn:${id}`,
     TXN_LOCK: (id: string) => `lock:txn:${id}`,
     QUEUE_STATS: 'hash:queue_stats',
+    LEADER_LEASE: (name: string) => `lease:leader:${name}`,
+    QUEUE_CONTROL: 'hash:queue_control',            // mode, reason, updatedBy, updatedAt
+    PAUSED_URGENCIES: 'set:queue_paused_urgencies',
 };
 
 // Graceful shutdown
@@ -0,0 +1,306 @@
+/**
+ * Lua scripts for the Redis queue, time-lock heap and leader leases
+ * Each script runs atomically on the Redis server, so concurrent workers and admin
+ * actions cannot interleave between the individual ZSET / HASH commands.
+ * Every key a script touches is passed in KEYS (never built from a prefix inside the script),
+ * so they keep working with client key prefixes and Redis Cluster can see which slots they touch.
+ * Registered as custom commands on the client in config/redis.ts
+ */
+export const LUA_SCRIPTS = {
+    /**
+     * Add a transaction to the priority queue and its urgency lane, together with its metadata hash
+     * KEYS: priority queue, txn data hash, urgency lane
+     * ARGV: id, score, basePriority, createdAt (ISO), createdAt (ms), urgency
+     */
+    queueEnqueue: {
+        numberOfKeys: 3,
+        lua: `
+            redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+            redis.call('ZADD', KEYS[3], ARGV[2], ARGV[1])
+            redis.call('HSET', KEYS[2], 'basePriority', ARGV[3], 'createdAt', ARGV[4],
+                'createdAtMs', ARGV[5], 'urgency', ARGV[6])
+            return 1
+        `,
+    },
+
+    /**
+     * Remove a transaction from the priority queue, the lanes, the retry and dead-letter sets and drop its metadata
+     * KEYS: priority queue, retry queue, dead-letter set, txn data hash, lane NORMAL, lane EMI, lane MEDICAL
+     * ARGV: id
+     * Returns the number of sets it was removed from (lanes not counted)
+     */
+    queueDequeue: {
+        numberOfKeys: 7,
+        lua: `
+            for i = 5, 7 do
+                redis.call('ZREM', KEYS[i], ARGV[1])
+            end
+            local removed = redis.call('ZREM', KEYS[1], ARGV[1])
+                + redis.call('ZREM', KEYS[2], ARGV[1])
+                + redis.call('ZREM', KEYS[3], ARGV[1])
+            redis.call('DEL', KEYS[4])
+            return removed
+        `,
+    },
+
+    /**
+     * Take a transaction out of the priority queue (and the lanes / the retry queue) and park it in TARGET
+     * Used for retry backoff (TARGET = retry queue) and dead-lettering; metadata is kept
+     * KEYS: priority queue, retry queue, target set, lane NORMAL, lane EMI, lane MEDICAL
+     * ARGV: id, score in target
+     */
+    queuePark: {
+        numberOfKeys: 6,
+        lua: `
+            for i = 4, 6 do
+                redis.call('ZREM', KEYS[i], ARGV[1])
+            end
+            redis.call('ZREM', KEYS[1], ARGV[1])
+            redis.call('ZREM', KEYS[2], ARGV[1])
+            redis.call('ZADD', KEYS[3], ARGV[2], ARGV[1])
+            return 1
+        `,
+    },
+
+    /**
+     * Update the stored base priority of a queued transaction (no-op once it has been dequeued)
+     * KEYS: txn data hash
+     * ARGV: basePriority
+     */
+    queueSetBase: {
+        numberOfKeys: 1,
+        lua: `
+            if redis.call('EXISTS', KEYS[1]) == 1 then
+                redis.call('HSET', KEYS[1], 'basePriority', ARGV[1])
+                return 1
+            end
+            return 0
+        `,
+    },
+
+    /**
+     * Next COUNT items across the urgency lanes in weighted round-robin order
+     * Walks SCHEDULE (one cycle of lane positions in KEYS) from the stored cursor, taking each lane's
+     * next member; empty lanes are skipped so spare slots go to the other lanes
+     * KEYS: round-robin cursor, lane NORMAL, lane EMI, lane MEDICAL
+     * ARGV: schedule (comma-separated KEYS indexes, e.g. '4,3,4,2'), count
+     * Returns [id, score, id, score, ...]; the stored cursor is not moved
+     */
+    queueLaneTop: {
+        numberOfKeys: 4,
+        lua: `
+            local schedule = {}
+            for index in string.gmatch(ARGV[1], '[^,]+') do
+                table.insert(schedule, tonumber(index))
+            end
+            local count = tonumber(ARGV[2])
+            local pos = tonumber(redis.call('GET', KEYS[1]) or '0')
+            local offsets = {}
+            local result = {}
+            local misses = 0
+            while #result < count * 2 and misses < #schedule do
+                local lane = schedule[(pos % #schedule) + 1]
+                pos = pos + 1
+                local offset = offsets[lane] or 0
+                local item = redis.call('ZRANGE', KEYS[lane], offset, offset, 'WITHSCORES')
+                if item[1] then
+                    table.insert(result, item[1])
+                    table.insert(result, item[2])
+                    offsets[lane] = offset + 1
+                    misses = 0
+                else
+                    misses = misses + 1
+                end
+            end
+            return result
+        `,
+    },
+
+    /**
+     * Lock the next queued transaction that nobody else holds
+     * The caller reads the candidates first and passes each one's lock key, so every key is declared.
+     * With a SCHEDULE the walk is queueLaneTop's, from the stored cursor, and the cursor is advanced
+     * past the claimed item here; without one, candidates are tried in the order given (by score).
+     * Members that are not candidates (excluded by the caller, or enqueued since it read) are passed over
+     * KEYS: round-robin cursor, lane NORMAL, lane EMI, lane MEDICAL, priority queue, then one lock key per candidate
+     * ARGV: schedule (as in queueLaneTop, '' = by score), lock ttl (ms), lock value, max members to scan,
+     *       then the candidate ids (in the order of their lock KEYS)
+     * Returns the claimed id, or nil when every candidate is locked or gone
+     */
+    queueClaimTop: {
+        numberOfKeys: undefined, // Variable: the caller passes the key count first
+        lua: `
+            local candidates = {}
+            for i = 5, #ARGV do
+                candidates[ARGV[i]] = i + 1
+            end
+            local function claim(id)
+                local lockIndex = candidates[id]
+                if not lockIndex then
+                    return false
+                end
+                return redis.call('SET', KEYS[lockIndex], ARGV[3], 'PX', ARGV[2], 'NX') ~= false
+            end
+
+            if ARGV[1] == '' then
+                for i = 5, #ARGV do
+                    if redis.call('ZSCORE', KEYS[5], ARGV[i]) and claim(ARGV[i]) then
+                        return ARGV[i]
+                    end
+                end
+                return nil
+            end
+
+            local schedule = {}
+            for index in string.gmatch(ARGV[1], '[^,]+') do
+                schedule[#schedule + 1] = tonumber(index)
+            end
+            local scanLimit = tonumber(ARGV[4])
+            local pos = tonumber(redis.call('GET', KEYS[1]) or '0')
+            local offsets = {}
+            local scanned = 0
+            local misses = 0
+            while scanned < scanLimit and misses < #schedule do
+                local lane = schedule[(pos % #schedule) + 1]
+                pos = pos + 1
+                local offset = offsets[lane] or 0
+                local item = redis.call('ZRANGE', KEYS[lane], offset, offset)
+                if item[1] then
+                    offsets[lane] = offset + 1
+                    scanned = scanned + 1
+                    misses = 0
+                    if claim(item[1]) then
+                        redis.call('SET', KEYS[1], pos % #schedule)
+                        return item[1]
+                    end
+                else
+                    misses = misses + 1
+                end
+            end
+            return nil
+        `,
+    },
+
+    /**
+     * Re-score every queued transaction (and its lane entry) with aging
+     * Score = -(basePriority + min(floor(waitSeconds), maxAge) * agingFactor); members dequeued since the
+     * caller listed them are skipped, and ZADD XX only touches the lane that actually holds each one
+     * KEYS: priority queue, lane NORMAL, lane EMI, lane MEDICAL, then one txn data hash per member
+     * ARGV: now (ms), aging factor, max age in seconds (-1 = none), then the member ids (in the order of their hash KEYS)
+     * Returns the number of members re-scored
+     */
+    queueReageAll: {
+        numberOfKeys: undefined, // Variable: the caller passes the key count first
+        lua: `
+            local now = tonumber(ARGV[1])
+            local agingFactor = tonumber(ARGV[2])
+            local maxAge = tonumber(ARGV[3])
+            local updated = 0
+            for i = 4, #ARGV do
+                local data = redis.call('HMGET', KEYS[i + 1], 'basePriority', 'createdAtMs')
+                if data[1] and data[2] and redis.call('ZSCORE', KEYS[1], ARGV[i]) then
+                    local waitSeconds = math.floor((now - tonumber(data[2])) / 1000)
+                    if maxAge >= 0 and waitSeconds > maxAge then
+                        waitSeconds = maxAge
+                    end
+                    local score = tostring(-(tonumber(data[1]) + waitSeconds * agingFactor))
+                    redis.call('ZADD', KEYS[1], 'XX', score, ARGV[i])
+                    for lane = 2, 4 do
+                        redis.call('ZADD', KEYS[lane], 'XX', score, ARGV[i])
+                    end
+                    updated = updated + 1
+                end
+            end
+            return updated
+        `,
+    },
+
+    /**
+     * Move a retry whose backoff has elapsed back into the priority queue and its lane
+     * (scored as in queueReageAll)
+     * KEYS: retry queue, priority queue, txn data hash, lane NORMAL, lane EMI, lane MEDICAL
+     * ARGV: id, now (ms), aging factor, max age in seconds (-1 = none), then the urgencies of the lane KEYS
+     * Returns 1 when promoted, 0 when it is no longer due (or gone), -1 when its metadata hash is missing
+     */
+    queuePromote: {
+        numberOfKeys: 6,
+        lua: `
+            local due = redis.call('ZSCORE', KEYS[1], ARGV[1])
+            if not due or tonumber(due) > tonumber(ARGV[2]) then
+                return 0
+            end
+            local data = redis.call('HMGET', KEYS[3], 'basePriority', 'createdAtMs', 'urgency')
+            if not (data[1] and data[2]) then
+                return -1
+            end
+            local waitSeconds = math.floor((tonumber(ARGV[2]) - tonumber(data[2])) / 1000)
+            local maxAge = tonumber(ARGV[4])
+            if maxAge >= 0 and waitSeconds > maxAge then
+                waitSeconds = maxAge
+            end
+            local score = tostring(-(tonumber(data[1]) + waitSeconds * tonumber(ARGV[3])))
+            redis.call('ZREM', KEYS[1], ARGV[1])
+            redis.call('ZADD', KEYS[2], score, ARGV[1])
+            for i = 4, 6 do
+                if ARGV[i + 1] == data[3] then
+                    redis.call('ZADD', KEYS[i], score, ARGV[1])
+                end
+            end
+            return 1
+        `,
+    },
+
+    /**
+     * Pop up to LIMIT transactions whose unlock time has passed from the time-lock heap
+     * Only the caller that pops an id gets to move it, so two workers never unlock the same one
+     * KEYS: time-lock heap
+     * ARGV: now (unix seconds), limit
+     */
+    timelockUnlockDue: {
+        numberOfKeys: 1,
+        lua: `
+            local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[2]))
+            if #due > 0 then
+                redis.call('ZREM', KEYS[1], unpack(due))
+            end
+            return due
+        `,
+    },
+
+    /**
+     * Take a free leader lease, or extend it if OWNER already holds it
+     * KEYS: lease key
+     * ARGV: owner, ttl (ms)
+     * Returns 1 when OWNER holds the lease afterwards, 0 when someone else does
+     */
+    leaseAcquire: {
+        numberOfKeys: 1,
+        lua: `
+            local holder = redis.call('GET', KEYS[1])
+            if holder == ARGV[1] then
+                redis.call('PEXPIRE', KEYS[1], ARGV[2])
+                return 1
+            end
+            if not holder then
+                redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+                return 1
+            end
+            return 0
+        `,
+    },
+
+    /**
+     * Give up a leader lease, only if OWNER still holds it
+     * KEYS: lease key
+     * ARGV: owner
+     */
+    leaseRelease: {
+        numberOfKeys: 1,
+        lua: `
+            if redis.call('GET', KEYS[1]) == ARGV[1] then
+                return redis.call('DEL', KEYS[1])
+            end
+            return 0
+        `,
+    },
+};
@@ -1,12 +1,27 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { authMiddleware, adminOnly } from '../middleware/auth';
 import { validate, schemas } from '../middleware/validation';
 import { accountService } from '../services/account.service';
 import { otpService } from '../services/otp.service';
-import { transactionService } from '../services/transaction.service';
+import { transactionService, TransactionSearch } from '../services/transaction.service';
 import { queueService } from '../services/queue.service';
 import { timelockService } from '../services/timelock.service';
+import { recoveryService } from '../services/recovery.service';
+import { limitService } from '../services/limit.service';
+import { statementService } from '../services/statement.service';
+import { reconciliationService } from '../services/reconciliation.service';
+import { ledgerService } from '../services/ledger.service';
+import { interestService } from '../services/interest.service';
+import { overdraftService } from '../services/overdraft.service';
+import { payoutService } from '../services/payout.service';
+import { leaderService } from '../services/leader.service';
+import { priorityService } from '../services/priority.service';
+import { simulationService } from '../services/simulation.service';
+import { slaService } from '../services/sla.service';
+import { queueControlService, QueueControlError } from '../services/queue-control.service';
 import prisma from '../config/database';
+import { config } from '../config';
+import { parseCsv } from '../utils/helpers';
 import { emitToAdmins, emitToUser } from '../websocket';
 
 const router = Router();
@@ -77,6 +92,198 @@ router.get('/accounts', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * GET /api/admin/accounts/:id/limits - Transfer limits and usage for an account
+ */
+router.get('/accounts/:id/limits', async (req: Request, res: Response) => {
+    try {
+        const headroom = await limitService.getHeadroom(req.params.id);
+        res.json(headroom);
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+    }
+});
+
+/**
+ * PUT /api/admin/accounts/:id/limits - Override tier limits for an account
+ */
+router.put(
+    '/accounts/:id/limits',
+    validate(schemas.transferLimits),
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            const account = await prisma.account.findUnique({ where: { id } });
+            if (!account) {
+                res.status(404).json({ error: 'Account not found' });
+                return;
+            }
+
+            await limitService.setAdminOverrides(id, req.body, req.user!.id);
+            const headroom = await limitService.getHeadroom(id);
+
+            res.json({ message: 'Limits updated', ...headroom });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/accounts/:id/overdraft - Overdraft position for an account
+ */
+router.get('/accounts/:id/overdraft', async (req: Request, res: Response) => {
+    try {
+        const status = await overdraftService.getStatus(req.params.id);
+        res.json(status);
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+    }
+});
+
+/**
+ * PUT /api/admin/accounts/:id/overdraft - Override the tier overdraft limit (null = tier default)
+ */
+router.put(
+    '/accounts/:id/overdraft',
+    validate(schemas.overdraftLimit),
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            const account = await prisma.account.findUnique({ where: { id } });
+            if (!account) {
+                res.status(404).json({ error: 'Account not found' });
+                return;
+            }
+
+            const status = await overdraftService.setLimit(id, req.body.limit);
+
+            // Lowering the limit below current usage blocks further debits
+            if (status.breached) {
+                emitToUser(id, 'overdraft:breached', { balance: account.balance, limit: status.limit });
+            }
+
+            res.json({ message: 'Overdraft limit updated', ...status });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/accounts/:id/statements - Statement for any account (?from&to&format=json|csv|pdf)
+ */
+router.get(
+    '/accounts/:id/statements',
+    validate(schemas.statementQuery, 'query'),
+    async (req: Request, res: Response) => {
+        try {
+            const { from, to, format } = req.query as unknown as { from: Date; to: Date; format: 'json' | 'csv' | 'pdf' };
+
+            const statement = await statementService.generate(req.params.id, from, to);
+
+            await statementService.send(res, statement, format);
+        } catch (error: any) {
+            res.status(error.message === 'Account not found' ? 404 : 500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/accounts/:id/interest - Interest accrual history for an account
+ */
+router.get(
+    '/accounts/:id/interest',
+    validate(schemas.interestQuery, 'query'),
+    async (req: Request, res: Response) => {
+        try {
+            const { from, to } = req.query as unknown as { from?: Date; to?: Date };
+
+            const history = await interestService.getHistory(req.params.id, from, to);
+
+            res.json(history);
+        } catch (error: any) {
+            res.status(error.message === 'Account not found' ? 404 : 500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/admin/payouts - Upload a bulk payout batch
+ * Body: text/csv with a header row, or JSON { rows: [...] }
+ * (columns fromAccountNumber, toAccountNumber, amount, urgency, reference)
+ * ?dryRun=true returns the validation report without enqueuing anything
+ */
+router.post(
+    '/payouts',
+    express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+    async (req: Request, res: Response) => {
+        try {
+            const rawRows: unknown = typeof req.body === 'string' ? parseCsv(req.body) : req.body?.rows;
+
+            if (!Array.isArray(rawRows) || rawRows.length === 0) {
+                res.status(400).json({ error: 'Batch must contain at least one row' });
+                return;
+            }
+
+            if (rawRows.length > config.payouts.maxRows) {
+                res.status(400).json({ error: `Batch cannot exceed ${config.payouts.maxRows} rows` });
+                return;
+            }
+
+            const report = await payoutService.validate(rawRows);
+
+            if (req.query.dryRun === 'true') {
+                res.json({ dryRun: true, report });
+                return;
+            }
+
+            if (report.validRows === 0) {
+                res.status(422).json({ error: 'No valid rows in batch', report });
+                return;
+            }
+
+            const batch = await payoutService.submit(report, req.user!.id);
+
+            emitToAdmins('payout:created', {
+                id: batch.id,
+                validRows: batch.validRows,
+                totalAmount: batch.totalAmount,
+            });
+
+            res.status(201).json({ message: 'Payout batch enqueued', batch, report });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/payouts - Recent payout batches
+ */
+router.get('/payouts', async (req: Request, res: Response) => {
+    try {
+        const batches = await payoutService.listBatches();
+        res.json({ batches });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/payouts/:id - Payout batch rows and aggregate progress
+ */
+router.get('/payouts/:id', async (req: Request, res: Response) => {
+    try {
+        const batch = await payoutService.getBatch(req.params.id);
+        res.json({ batch });
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+    }
+});
+
 /**
  * GET /api/admin/queues - Get current queue status
  */
@@ -105,6 +312,203 @@ router.get('/queues', async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/admin/queues/rebuild - Rebuild Redis queues from Postgres and report drift
+ */
+router.post('/queues/rebuild', async (req: Request, res: Response) => {
+    try {
+        const report = await recoveryService.rebuildQueues();
+
+        emitToAdmins('queue:update', { reason: 'queues_rebuilt' });
+
+        res.json({ message: 'Queues rebuilt', report });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/priority-policy - Active priority formula, aging and lane settings
+ */
+router.get('/priority-policy', async (req: Request, res: Response) => {
+    try {
+        const policy = await priorityService.getActive();
+        res.json({ policy, laneSchedule: priorityService.laneSchedule(policy) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PUT /api/admin/priority-policy - Publish a new policy version and re-score waiting transactions
+ */
+router.put('/priority-policy', validate(schemas.priorityPolicy), async (req: Request, res: Response) => {
+    try {
+        const { reason, ...input } = req.body;
+
+        const policy = await priorityService.publish(input, req.user!.id, reason);
+        const rescored = await queueService.rescoreQueued(policy);
+
+        emitToAdmins('queue:update', { reason: 'priority_policy_changed', version: policy.version });
+
+        res.json({ message: `Priority policy v${policy.version} published`, policy, rescored });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/priority-policy/simulate - What-if: replay the current queue or a synthetic
+ * workload under a hypothetical policy and compare it with the active one (changes nothing)
+ */
+router.post('/priority-policy/simulate', validate(schemas.prioritySimulation), async (req: Request, res: Response) => {
+    try {
+        const report = await simulationService.run(req.body);
+        res.json({ report });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/priority-policy/history - Published policy versions with who changed them and why
+ */
+router.get('/priority-policy/history', async (req: Request, res: Response) => {
+    try {
+        const versions = await priorityService.getHistory();
+        res.json({ versions });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/sla/metrics - Daily settlement SLA outcomes by urgency and tier
+ */
+router.get('/sla/metrics', validate(schemas.slaMetricsQuery, 'query'), async (req: Request, res: Response) => {
+    try {
+        const { from, to } = req.query as unknown as { from?: Date; to?: Date };
+
+        const metrics = await slaService.getMetrics(from, to);
+
+        res.json({ targets: config.sla.targetSeconds, metrics });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/queue/control - Pause / drain state and in-flight RESERVED count
+ */
+router.get('/queue/control', async (req: Request, res: Response) => {
+    try {
+        const status = await queueControlService.getStatus();
+        res.json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/queue/pause - Pause settlement globally, or only for the given urgencies
+ */
+router.post('/queue/pause', validate(schemas.queuePause), async (req: Request, res: Response) => {
+    try {
+        const { reason, urgencies } = req.body;
+
+        const state = await queueControlService.pause(req.user!.id, reason, urgencies);
+
+        emitToAdmins('queue:control', state);
+
+        res.json({ message: 'Settlement paused', state });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/queue/resume - Resume settlement globally, or only for the given urgencies
+ */
+router.post('/queue/resume', validate(schemas.queueResume), async (req: Request, res: Response) => {
+    try {
+        const { state, released } = await queueControlService.resume(req.user!.id, req.body.urgencies);
+
+        emitToAdmins('queue:control', state);
+        emitToAdmins('queue:update', { reason: 'queue_resumed' });
+
+        res.json({ message: 'Settlement resumed', state, released });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/queue/drain - Finish in-flight RESERVED items, accept and reserve nothing new
+ */
+router.post('/queue/drain', validate(schemas.queueDrain), async (req: Request, res: Response) => {
+    try {
+        const state = await queueControlService.drain(req.user!.id, req.body.reason);
+
+        emitToAdmins('queue:control', state);
+
+        res.json({ message: 'Queue draining', state });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/cluster/leases - Which instance runs each lease-guarded worker
+ */
+router.get('/cluster/leases', async (req: Request, res: Response) => {
+    try {
+        const status = await leaderService.getStatus();
+        res.json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/reconciliation - Ledger vs stored balance consistency report
+ */
+router.get('/reconciliation', async (req: Request, res: Response) => {
+    try {
+        const report = await reconciliationService.run();
+        res.json({ report });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/ledger/trial-balance - GL account balances and the zero-sum check
+ */
+router.get('/ledger/trial-balance', async (req: Request, res: Response) => {
+    try {
+        const trialBalance = await ledgerService.getTrialBalance();
+        res.json({ ...trialBalance, balanced: trialBalance.net.isZero() });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /api/admin/transactions - Search transfers (?reference&q&accountNumber&status&from&to&limit)
+ */
+router.get(
+    '/transactions',
+    validate(schemas.transactionSearch, 'query'),
+    async (req: Request, res: Response) => {
+        try {
+            const transactions = await transactionService.search(req.query as unknown as TransactionSearch);
+            res.json({ transactions });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
 /**
  * GET /api/admin/pending - Get transactions awaiting manual completion
  */
@@ -148,7 +552,7 @@ router.post('/transactions/:id/complete', async (req: Request, res: Response) =>
 
         res.json({ message: 'Transaction completed', transaction });
     } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        res.status(error instanceof QueueControlError ? 409 : 500).json({ error: error.message });
     }
 });
 
@@ -184,6 +588,101 @@ router.post('/transactions/:id/cancel', async (req: Request, res: Response) => {
         res.status(500).json({ error: error.message });
     }
 });
+
+/**
+ * POST /api/admin/transactions/:id/reverse - Reverse (fully or partially) a completed transaction
+ */
+router.post(
+    '/transactions/:id/reverse',
+    validate(schemas.reverseTransaction),
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+
+            const reversal = await transactionService.reverse(id, req.body, req.user!.id);
+
+            // Notify both parties (the original sender is credited, the recipient debited)
+            emitToUser(reversal.toAccountId, 'transaction:reversed', {
+                id,
+                reversalId: reversal.id,
+                amount: reversal.amount,
+            });
+            emitToUser(reversal.fromAccountId, 'transaction:reversed', {
+                id,
+                reversalId: reversal.id,
+                amount: reversal.amount,
+            });
+            emitToAdmins('transaction:reversed', { id, reversalId: reversal.id });
+
+            // A forced reversal can take the original recipient past their overdraft
+            const recipient = await overdraftService.getStatus(reversal.fromAccountId);
+            if (recipient.breached) {
+                emitToUser(reversal.fromAccountId, 'overdraft:breached', { used: recipient.used, limit: recipient.limit });
+            }
+
+            res.status(201).json({ message: 'Transaction reversed', reversal });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/admin/dead-letters - Transactions that exhausted their settlement retries
+ */
+router.get('/dead-letters', async (req: Request, res: Response) => {
+    try {
+        const transactions = await transactionService.getDeadLetters();
+        res.json({ transactions });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/dead-letters/:id/requeue - Put a dead-lettered transaction back in the queue
+ */
+router.post('/dead-letters/:id/requeue', async (req: Request, res: Response) => {
+    try {
+        const transaction = await transactionService.requeueDeadLetter(req.params.id);
+
+        emitToAdmins('queue:update', { reason: 'dead_letter_requeued', id: transaction.id });
+
+        res.json({ message: 'Transaction requeued', transaction });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /api/admin/dead-letters/:id/cancel - Cancel a dead-lettered transaction (releases reserved funds)
+ */
+router.post('/dead-letters/:id/cancel', async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const cancelled = await transactionService.cancelDeadLetter(id);
+        if (!cancelled) {
+            res.status(400).json({ error: 'Failed to cancel transaction' });
+            return;
+        }
+
+        const transaction = await transactionService.getById(id);
+        if (transaction) {
+            emitToUser(transaction.fromAccountId, 'transaction:status', {
+                id,
+                status: 'CANCELLED',
+                reason: transaction.failureReason ?? undefined,
+            });
+        }
+        emitToAdmins('queue:update', { reason: 'dead_letter_cancelled', id });
+
+        res.json({ message: 'Transaction cancelled' });
+    } catch (error: any) {
+        res.status(400).json({ error: error.message });
+    }
+});
+
 /**
  * POST /api/admin/process-next - Process the next highest-priority transaction
  */
@@ -191,6 +690,11 @@ router.post('/process-next', async (req: Request, res: Response) => {
     try {
         const result = await transactionService.processNext();
 
+        if (result.blockedReason) {
+            res.status(409).json({ error: result.blockedReason });
+            return;
+        }
+
         if (!result.success) {
             res.status(400).json({ error: 'No pending transactions to process or processing failed' });
             return;
@@ -213,7 +717,7 @@ router.post('/process-next', async (req: Request, res: Response) => {
 
         res.json({ message: 'Transaction processed successfully', transaction });
     } catch (error: any) {
-        res.status(500).json({ error: error.message });
+        res.status(error instanceof QueueControlError ? 409 : 500).json({ error: error.message });
     }
 });
 
@@ -3,10 +3,21 @@ import { authMiddleware, customerOnly, generateToken } from '../middleware/auth'
 import { validate, schemas } from '../middleware/validation';
 import { authService } from '../services/auth.service';
 import { accountService } from '../services/account.service';
-import { transactionService } from '../services/transaction.service';
+import { transactionService, IdempotencyOptions, IdempotencyConflictError } from '../services/transaction.service';
+import { scheduleService } from '../services/schedule.service';
+import { standingInstructionService } from '../services/standing.service';
+import { beneficiaryService } from '../services/beneficiary.service';
+import { limitService } from '../services/limit.service';
+import { statementService } from '../services/statement.service';
+import { feeService } from '../services/fee.service';
+import { interestService } from '../services/interest.service';
+import { overdraftService } from '../services/overdraft.service';
+import { paymentRequestService } from '../services/payment-request.service';
 import prisma from '../config/database';
 import { config } from '../config';
 import { Decimal } from '@prisma/client/runtime/library';
+import { Transaction } from '@prisma/client';
+import { hashPayload } from '../utils/helpers';
 import { emitToAdmins, emitToUser } from '../websocket';
 
 const router = Router();
@@ -126,6 +137,8 @@ router.get(
                     balance: true,
                     reservedAmount: true,
                     tier: true,
+                    overdraftEnabled: true,
+                    overdraftLimit: true,
                     createdAt: true,
                 },
             });
@@ -136,7 +149,10 @@ router.get(
             }
 
             const availableBalance = await accountService.getAvailableBalance(account.id);
-            const tierReserve = new Decimal(config.tierReserves[account.tier] || 0);
+            // The tier minimum is held back unless an overdraft is in force
+            const tierReserve = overdraftService.effectiveLimit(account).greaterThan(0)
+                ? new Decimal(0)
+                : new Decimal(config.tierReserves[account.tier] || 0);
 
             res.json({
                 ...account,
@@ -149,8 +165,65 @@ router.get(
     }
 );
 
+/**
+ * Build the response body for a created (or replayed) transfer
+ */
+function transferResponse(transaction: Transaction) {
+    return {
+        message: transaction.holdReason
+            ? `Transfer accepted but held (${transaction.holdReason}). It will be processed when settlement resumes.`
+            : transaction.status === 'LOCKED'
+                ? `Transfer initiated. High-value transfer locked for ${30} seconds.`
+                : 'Transfer queued for processing',
+        transaction: {
+            id: transaction.id,
+            reference: transaction.reference,
+            remark: transaction.remark,
+            amount: transaction.amount,
+            feeAmount: transaction.feeAmount,
+            feeWaiver: transaction.feeWaiver,
+            status: transaction.status,
+            lockedUntil: transaction.lockedUntil,
+            holdReason: transaction.holdReason,
+            createdAt: transaction.createdAt,
+        },
+    };
+}
+
+/**
+ * POST /api/customer/transfer/quote - Fee quote to show before confirming a transfer
+ */
+router.post(
+    '/transfer/quote',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.transferQuote),
+    async (req: Request, res: Response) => {
+        try {
+            const { amount, urgency } = req.body;
+
+            const account = await prisma.account.findUnique({
+                where: { id: req.user!.id },
+                select: { id: true, tier: true },
+            });
+
+            if (!account) {
+                res.status(404).json({ error: 'Account not found' });
+                return;
+            }
+
+            const quote = await feeService.quote(account, amount, urgency);
+
+            res.json({ quote });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
 /**
  * POST /api/customer/transfer - Initiate a transfer
+ * Supports an optional Idempotency-Key header so retried requests return the original transaction
  */
 router.post(
     '/transfer',
@@ -159,16 +232,51 @@ router.post(
     validate(schemas.transfer),
     async (req: Request, res: Response) => {
         try {
-            const { toAccountNumber, amount, urgency } = req.body;
+            const { toAccountNumber, amount, urgency, maxFee, remark } = req.body;
             const userId = req.user!.id;
+            const idempotencyKey = req.header('Idempotency-Key');
+
+            let idempotency: IdempotencyOptions | undefined;
+            if (idempotencyKey !== undefined) {
+                if (!/^[\w-]{1,255}$/.test(idempotencyKey)) {
+                    res.status(400).json({ error: 'Invalid Idempotency-Key header' });
+                    return;
+                }
+
+                idempotency = {
+                    key: idempotencyKey,
+                    requestHash: hashPayload({ toAccountNumber, amount, urgency, remark }),
+                };
+
+                // Replay: same key seen before for this sender
+                const existing = await transactionService.findByIdempotencyKey(userId, idempotencyKey);
+                if (existing) {
+                    if (existing.requestHash !== idempotency.requestHash) {
+                        res.status(409).json({ error: new IdempotencyConflictError().message });
+                        return;
+                    }
+
+                    res.setHeader('Idempotent-Replayed', 'true');
+                    res.status(201).json(transferResponse(existing));
+                    return;
+                }
+            }
 
             const transaction = await transactionService.initiateTransfer(
                 userId,
                 toAccountNumber,
                 amount,
-                urgency
+                urgency,
+                { idempotency, maxFee, remark }
             );
 
+            // A concurrent request with the same key created it; it already notified admins
+            if (transaction.replayed) {
+                res.setHeader('Idempotent-Replayed', 'true');
+                res.status(201).json(transferResponse(transaction));
+                return;
+            }
+
             // Notify admins about new transaction
             emitToAdmins('transaction:new', {
                 id: transaction.id,
@@ -177,20 +285,9 @@ router.post(
                 urgency,
             });
 
-            res.status(201).json({
-                message: transaction.status === 'LOCKED'
-                    ? `Transfer initiated. High-value transfer locked for ${30} seconds.`
-                    : 'Transfer queued for processing',
-                transaction: {
-                    id: transaction.id,
-                    amount: transaction.amount,
-                    status: transaction.status,
-                    lockedUntil: transaction.lockedUntil,
-                    createdAt: transaction.createdAt,
-                },
-            });
+            res.status(201).json(transferResponse(transaction));
         } catch (error: any) {
-            res.status(400).json({ error: error.message });
+            res.status(error instanceof IdempotencyConflictError ? 409 : 400).json({ error: error.message });
         }
     }
 );
@@ -278,18 +375,10 @@ router.post(
                 return;
             }
 
-            // Cancel the timelock and release reserved funds
+            // Cancel the timelock (LOCKED transfers have no reservation to release)
             const { timelockService } = await import('../services/timelock.service');
             await timelockService.cancelLocked(id);
 
-            // Release the reserved amount back to sender
-            await prisma.account.update({
-                where: { id: transaction.fromAccountId },
-                data: {
-                    reservedAmount: { decrement: transaction.amount },
-                },
-            });
-
             // Notify admins
             emitToAdmins('queue:update', { reason: 'transaction_cancelled_by_customer' });
 
@@ -300,4 +389,538 @@ router.post(
     }
 );
 
+/**
+ * POST /api/customer/scheduled-transfers - Schedule a future-dated transfer
+ */
+router.post(
+    '/scheduled-transfers',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.scheduleTransfer),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const schedule = await scheduleService.create(userId, req.body);
+
+            res.status(201).json({ message: 'Transfer scheduled', schedule });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/scheduled-transfers - List scheduled transfers (?all=true includes past)
+ */
+router.get(
+    '/scheduled-transfers',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+            const includePast = req.query.all === 'true';
+
+            const schedules = await scheduleService.listForAccount(userId, includePast);
+
+            res.json({ schedules });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PATCH /api/customer/scheduled-transfers/:id - Edit an upcoming scheduled transfer
+ */
+router.patch(
+    '/scheduled-transfers/:id',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.updateScheduledTransfer),
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const schedule = await scheduleService.update(id, userId, req.body);
+
+            if (!schedule) {
+                res.status(404).json({ error: 'Scheduled transfer not found' });
+                return;
+            }
+
+            res.json({ message: 'Scheduled transfer updated', schedule });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/scheduled-transfers/:id/cancel - Cancel an upcoming scheduled transfer
+ */
+router.post(
+    '/scheduled-transfers/:id/cancel',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const schedule = await scheduleService.cancel(id, userId);
+
+            if (!schedule) {
+                res.status(404).json({ error: 'Scheduled transfer not found' });
+                return;
+            }
+
+            res.json({ message: 'Scheduled transfer cancelled', schedule });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/standing-instructions - Set up a recurring EMI payment
+ */
+router.post(
+    '/standing-instructions',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.createStandingInstruction),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const instruction = await standingInstructionService.create(userId, req.body);
+
+            res.status(201).json({ message: 'Standing instruction created', instruction });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/standing-instructions - List standing instructions
+ */
+router.get(
+    '/standing-instructions',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const instructions = await standingInstructionService.listForAccount(userId);
+
+            res.json({ instructions });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/standing-instructions/:id - Standing instruction with instalment history
+ */
+router.get(
+    '/standing-instructions/:id',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const instruction = await standingInstructionService.getForAccount(id, userId);
+
+            if (!instruction) {
+                res.status(404).json({ error: 'Standing instruction not found' });
+                return;
+            }
+
+            res.json({ instruction });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/standing-instructions/:id/cancel - Stop a standing instruction
+ */
+router.post(
+    '/standing-instructions/:id/cancel',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const instruction = await standingInstructionService.cancel(id, userId);
+
+            if (!instruction) {
+                res.status(404).json({ error: 'Standing instruction not found' });
+                return;
+            }
+
+            res.json({ message: 'Standing instruction cancelled', instruction });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/beneficiaries - Add a beneficiary (sends OTP to confirm)
+ */
+router.post(
+    '/beneficiaries',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.addBeneficiary),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const { beneficiary, otpCode } = await beneficiaryService.add(userId, req.body);
+
+            res.status(201).json({
+                message: 'OTP sent to your registered mobile. Confirm to activate the beneficiary.',
+                beneficiary,
+                // Demo only - dev mode fallback when SMS fails
+                demo: otpCode ? { mobile: otpCode } : undefined,
+            });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/beneficiaries/:id/confirm - Confirm a beneficiary with OTP
+ */
+router.post(
+    '/beneficiaries/:id/confirm',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.confirmBeneficiary),
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const beneficiary = await beneficiaryService.confirm(id, userId, req.body.code);
+
+            if (!beneficiary) {
+                res.status(404).json({ error: 'Beneficiary not found' });
+                return;
+            }
+
+            res.json({ message: 'Beneficiary activated', beneficiary });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/beneficiaries - List saved beneficiaries
+ */
+router.get(
+    '/beneficiaries',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const beneficiaries = await beneficiaryService.listForAccount(userId);
+
+            res.json({ beneficiaries });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * DELETE /api/customer/beneficiaries/:id - Remove a beneficiary
+ */
+router.delete(
+    '/beneficiaries/:id',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.id;
+
+            const beneficiary = await beneficiaryService.remove(id, userId);
+
+            if (!beneficiary) {
+                res.status(404).json({ error: 'Beneficiary not found' });
+                return;
+            }
+
+            res.json({ message: 'Beneficiary removed' });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/limits - Transfer limits and remaining headroom for today
+ */
+router.get(
+    '/limits',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const headroom = await limitService.getHeadroom(userId);
+
+            res.json(headroom);
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /api/customer/limits - Set self-imposed (lower) transfer limits
+ */
+router.put(
+    '/limits',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.transferLimits),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            await limitService.setCustomerLimits(userId, req.body);
+            const headroom = await limitService.getHeadroom(userId);
+
+            res.json({ message: 'Limits updated', ...headroom });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/payment-requests - Request money from another customer
+ */
+router.post(
+    '/payment-requests',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.createPaymentRequest),
+    async (req: Request, res: Response) => {
+        try {
+            const request = await paymentRequestService.create(req.user!.id, req.body);
+
+            emitToUser(request.payerAccountId, 'payment_request:new', {
+                id: request.id,
+                amount: request.amount,
+                note: request.note,
+                from: req.user!.accountNumber,
+                expiresAt: request.expiresAt,
+            });
+
+            res.status(201).json({ message: 'Payment request sent', request });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/payment-requests - Pending requests to pay, and requests sent (?all=true for answered ones too)
+ */
+router.get(
+    '/payment-requests',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+
+            const [incoming, outgoing] = await Promise.all([
+                paymentRequestService.listIncoming(userId, req.query.all === 'true'),
+                paymentRequestService.listOutgoing(userId),
+            ]);
+
+            res.json({ incoming, outgoing });
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/payment-requests/:id/accept - Pay a request (creates a normal transfer)
+ */
+router.post(
+    '/payment-requests/:id/accept',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.acceptPaymentRequest),
+    async (req: Request, res: Response) => {
+        try {
+            const { request, transaction } = await paymentRequestService.accept(
+                req.params.id,
+                req.user!.id,
+                req.body
+            );
+
+            emitToAdmins('transaction:new', {
+                id: transaction.id,
+                amount: transaction.amount,
+                status: transaction.status,
+                urgency: transaction.urgency,
+            });
+            emitToUser(request.requesterAccountId, 'payment_request:paid', {
+                id: request.id,
+                transactionId: transaction.id,
+                amount: request.amount,
+            });
+
+            res.status(201).json({ ...transferResponse(transaction), request });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/payment-requests/:id/decline - Refuse a request
+ */
+router.post(
+    '/payment-requests/:id/decline',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const request = await paymentRequestService.decline(req.params.id, req.user!.id);
+
+            emitToUser(request.requesterAccountId, 'payment_request:declined', { id: request.id });
+
+            res.json({ message: 'Payment request declined', request });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /api/customer/payment-requests/:id/cancel - Withdraw a request you sent
+ */
+router.post(
+    '/payment-requests/:id/cancel',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const request = await paymentRequestService.cancel(req.params.id, req.user!.id);
+
+            emitToUser(request.payerAccountId, 'payment_request:cancelled', { id: request.id });
+
+            res.json({ message: 'Payment request cancelled', request });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/overdraft - Overdraft limit, usage and rate
+ */
+router.get(
+    '/overdraft',
+    authMiddleware,
+    customerOnly,
+    async (req: Request, res: Response) => {
+        try {
+            const status = await overdraftService.getStatus(req.user!.id);
+
+            res.json(status);
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * PUT /api/customer/overdraft - Opt in to (or out of) the overdraft offered for the tier
+ */
+router.put(
+    '/overdraft',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.overdraftOptIn),
+    async (req: Request, res: Response) => {
+        try {
+            const status = await overdraftService.setEnabled(req.user!.id, req.body.enabled);
+
+            res.json({ message: status.enabled ? 'Overdraft enabled' : 'Overdraft disabled', ...status });
+        } catch (error: any) {
+            res.status(400).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/statements - Account statement (?from&to&format=json|csv|pdf)
+ */
+router.get(
+    '/statements',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.statementQuery, 'query'),
+    async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.id;
+            const { from, to, format } = req.query as unknown as { from: Date; to: Date; format: 'json' | 'csv' | 'pdf' };
+
+            const statement = await statementService.generate(userId, from, to);
+
+            await statementService.send(res, statement, format);
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * GET /api/customer/interest - Daily interest accruals and the amount due at month end
+ */
+router.get(
+    '/interest',
+    authMiddleware,
+    customerOnly,
+    validate(schemas.interestQuery, 'query'),
+    async (req: Request, res: Response) => {
+        try {
+            const { from, to } = req.query as unknown as { from?: Date; to?: Date };
+
+            const history = await interestService.getHistory(req.user!.id, from, to);
+
+            res.json(history);
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
 export default router;
@@ -1,5 +1,33 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError } from 'zod';
+import { isValidCron } from '../utils/schedule';
+
+// Priority formula overrides, shared by policy publishing and simulation
+const urgencyValues = z.object({
+    NORMAL: z.number().nonnegative(),
+    EMI: z.number().nonnegative(),
+    MEDICAL: z.number().nonnegative(),
+});
+
+const priorityFormula = z.object({
+    urgencyWeights: urgencyValues.partial().optional(),
+    tierWeights: z.object({
+        BASIC: z.number().nonnegative(),
+        PREMIUM: z.number().nonnegative(),
+        VIP: z.number().nonnegative(),
+    }).partial().optional(),
+    urgencyCoefficient: z.number().nonnegative().optional(),
+    tierCoefficient: z.number().nonnegative().optional(),
+    riskCoefficient: z.number().nonnegative().optional(),
+    agingFactor: z.number().nonnegative().optional(),
+    maxAgeSeconds: z.number().int().positive('Max age must be positive').nullable().optional(),
+    lanesEnabled: z.boolean().optional(),
+    laneWeights: z.object({
+        NORMAL: z.number().int().min(1, 'Lane weight must be at least 1'),
+        EMI: z.number().int().min(1, 'Lane weight must be at least 1'),
+        MEDICAL: z.number().int().min(1, 'Lane weight must be at least 1'),
+    }).partial().optional(),
+});
 
 /**
  * Validation schemas
@@ -46,6 +74,190 @@ export const schemas = {
         toAccountNumber: z.string().min(1, 'Recipient account required'),
         amount: z.number().positive('Amount must be positive'),
         urgency: z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional().default('NORMAL'),
+        maxFee: z.number().nonnegative('Max fee cannot be negative').optional(),
+        remark: z.string().trim().max(140, 'Remark too long').optional(),
+    }),
+
+    // Fee quote for a transfer
+    transferQuote: z.object({
+        amount: z.number().positive('Amount must be positive'),
+        urgency: z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional().default('NORMAL'),
+    }),
+
+    // Scheduled transfer
+    scheduleTransfer: z.object({
+        toAccountNumber: z.string().min(1, 'Recipient account required'),
+        amount: z.number().positive('Amount must be positive'),
+        urgency: z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional().default('NORMAL'),
+        remark: z.string().trim().max(140, 'Remark too long').optional(),
+        scheduledFor: z.coerce.date().refine(d => d > new Date(), 'Scheduled time must be in the future'),
+    }),
+
+    updateScheduledTransfer: z.object({
+        toAccountNumber: z.string().min(1, 'Recipient account required').optional(),
+        amount: z.number().positive('Amount must be positive').optional(),
+        urgency: z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional(),
+        remark: z.string().trim().max(140, 'Remark too long').optional(),
+        scheduledFor: z.coerce.date().refine(d => d > new Date(), 'Scheduled time must be in the future').optional(),
+    }).refine(data => Object.values(data).some(v => v !== undefined), {
+        message: 'Nothing to update',
+    }),
+
+    // Standing instruction (recurring EMI)
+    createStandingInstruction: z.object({
+        toAccountNumber: z.string().min(1, 'Recipient account required'),
+        amount: z.number().positive('Amount must be positive'),
+        remark: z.string().trim().max(140, 'Remark too long').optional(),
+        frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'CRON']),
+        cronExpression: z.string().optional(),
+        startAt: z.coerce.date().refine(d => d > new Date(), 'Start time must be in the future'),
+        endDate: z.coerce.date().optional(),
+        maxInstalments: z.number().int().positive('Instalment count must be positive').optional(),
+        maxRetries: z.number().int().min(0).max(10).optional(),
+    }).refine(data => data.frequency !== 'CRON' || (!!data.cronExpression && isValidCron(data.cronExpression)), {
+        message: 'A valid 5-field cron expression is required for CRON frequency',
+        path: ['cronExpression'],
+    }).refine(data => !data.endDate || data.endDate > data.startAt, {
+        message: 'End date must be after start time',
+        path: ['endDate'],
+    }),
+
+    // Beneficiary
+    addBeneficiary: z.object({
+        accountNumber: z.string().min(1, 'Beneficiary account required'),
+        nickname: z.string().trim().min(1, 'Nickname required').max(50, 'Nickname too long'),
+    }),
+
+    confirmBeneficiary: z.object({
+        code: z.string().length(6, 'OTP must be 6 digits'),
+    }),
+
+    // Transfer limits (null clears a limit)
+    transferLimits: z.object({
+        perTransaction: z.number().positive('Limit must be positive').nullable().optional(),
+        dailyAmount: z.number().positive('Limit must be positive').nullable().optional(),
+        dailyCount: z.number().int().positive('Limit must be positive').nullable().optional(),
+    }),
+
+    // Payment request ("request money")
+    createPaymentRequest: z.object({
+        payerAccountNumber: z.string().min(1, 'Payer account required'),
+        amount: z.number().positive('Amount must be positive'),
+        note: z.string().trim().max(140, 'Note too long').optional(),
+        expiresInHours: z.number().int().positive().optional(),
+    }),
+
+    // Paying a payment request
+    acceptPaymentRequest: z.object({
+        urgency: z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional().default('NORMAL'),
+        maxFee: z.number().nonnegative('Max fee cannot be negative').optional(),
+    }),
+
+    // One row of a bulk payout batch (CSV values arrive as strings)
+    payoutRow: z.object({
+        fromAccountNumber: z.string().trim().min(1, 'From account required'),
+        toAccountNumber: z.string().trim().min(1, 'To account required'),
+        amount: z.coerce.number().positive('Amount must be positive'),
+        urgency: z.preprocess(
+            value => (value === '' ? undefined : value),
+            z.enum(['NORMAL', 'EMI', 'MEDICAL']).optional().default('NORMAL')
+        ),
+        reference: z.string().trim().max(140, 'Reference too long').optional(),
+    }),
+
+    // Overdraft opt-in (customer)
+    overdraftOptIn: z.object({
+        enabled: z.boolean(),
+    }),
+
+    // Overdraft limit override (admin); null restores the tier default
+    overdraftLimit: z.object({
+        limit: z.number().nonnegative('Limit cannot be negative').nullable(),
+    }),
+
+    // Priority policy (admin); omitted fields carry over from the active version
+    priorityPolicy: priorityFormula.extend({
+        reason: z.string().trim().min(3, 'Reason required'),
+    }),
+
+    // Priority what-if simulation (admin)
+    prioritySimulation: z.object({
+        policy: priorityFormula.optional(),
+        workload: z.enum(['CURRENT', 'SYNTHETIC']).optional().default('CURRENT'),
+        synthetic: z.object({
+            count: z.number().int().min(1).max(5000),
+            arrivalWindowSeconds: z.number().int().min(0).max(86400).optional().default(300),
+            urgencyMix: urgencyValues.optional().default({ NORMAL: 70, EMI: 20, MEDICAL: 10 }),
+            tierMix: z.object({
+                BASIC: z.number().nonnegative(),
+                PREMIUM: z.number().nonnegative(),
+                VIP: z.number().nonnegative(),
+            }).optional().default({ BASIC: 60, PREMIUM: 30, VIP: 10 }),
+            maxRiskScore: z.number().int().min(0).max(10).optional().default(3),
+            seed: z.number().int().optional().default(1),
+        }).optional(),
+        processingRatePerSecond: z.number().positive().max(1000).optional().default(1),
+        starvationSeconds: z.number().positive().optional().default(300),
+        orderingLimit: z.number().int().min(0).max(500).optional().default(50),
+    }).refine(data => data.workload !== 'SYNTHETIC' || data.synthetic, {
+        message: 'synthetic workload settings required',
+        path: ['synthetic'],
+    }),
+
+    // Transaction search (admin)
+    transactionSearch: z.object({
+        reference: z.string().trim().min(3, 'Reference must be at least 3 characters').optional(),
+        q: z.string().trim().min(2, 'Search text must be at least 2 characters').optional(),
+        accountNumber: z.string().trim().optional(),
+        status: z.enum(['CREATED', 'LOCKED', 'QUEUED', 'RESERVED', 'PENDING_MANUAL', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+    }),
+
+    // Reversal (admin)
+    reverseTransaction: z.object({
+        amount: z.number().positive('Amount must be positive').optional(),
+        reason: z.string().trim().min(3, 'Reason required'),
+        shortfallPolicy: z.enum(['REJECT', 'PARTIAL', 'FORCE']).optional().default('REJECT'),
+    }),
+
+    // Statement export (query string)
+    statementQuery: z.object({
+        from: z.coerce.date(),
+        to: z.coerce.date().optional().default(() => new Date()),
+        format: z.enum(['json', 'csv', 'pdf']).optional().default('json'),
+    }).refine(data => data.from <= data.to, {
+        message: 'From date must be before to date',
+        path: ['from'],
+    }).refine(data => data.to.getTime() - data.from.getTime() <= 366 * 24 * 60 * 60 * 1000, {
+        message: 'Statement period cannot exceed one year',
+        path: ['to'],
+    }),
+
+    // Interest accrual history
+    interestQuery: z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+    }),
+
+    // Queue controls (admin); no urgencies = whole queue
+    queuePause: z.object({
+        reason: z.string().trim().min(3, 'Reason required'),
+        urgencies: z.array(z.enum(['NORMAL', 'EMI', 'MEDICAL'])).min(1).optional(),
+    }),
+
+    queueResume: z.object({
+        urgencies: z.array(z.enum(['NORMAL', 'EMI', 'MEDICAL'])).min(1).optional(),
+    }),
+
+    queueDrain: z.object({
+        reason: z.string().trim().min(3, 'Reason required'),
+    }),
+
+    slaMetricsQuery: z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
     }),
 
     // OTP
@@ -0,0 +1,55 @@
+import prisma from '../config/database';
+import { reconciliationService } from '../services/reconciliation.service';
+
+async function main() {
+    console.log('🔍 Reconciling ledger against account balances...');
+    let exitCode = 0;
+
+    try {
+        const report = await reconciliationService.run();
+
+        console.log(`Accounts checked: ${report.accountsChecked}`);
+        console.log(`Transactions checked: ${report.transactionsChecked}`);
+
+        for (const acc of report.accounts) {
+            console.log(`\n❌ Account ${acc.accountNumber} (${acc.accountId})`);
+            console.log(`   Balance:  stored ₹${acc.storedBalance}  replayed ₹${acc.replayedBalance}`);
+            console.log(`   Reserved: stored ₹${acc.storedReserved}  replayed ₹${acc.replayedReserved}`);
+            for (const brk of acc.chainBreaks) {
+                console.log(`   Entry ${brk.entryId}: balanceAfter ₹${brk.recorded}, expected ₹${brk.expected}`);
+            }
+        }
+
+        for (const tx of report.transactions) {
+            console.log(`❌ Transaction ${tx.transactionId} [${tx.status}]: ${tx.issue}`);
+        }
+
+        const de = report.doubleEntry;
+        console.log(`\nDouble-entry: debits ₹${de.totalDebits}, credits ₹${de.totalCredits}, net ₹${de.net}`);
+        for (const journal of de.unbalancedJournals) {
+            console.log(`❌ Journal ${journal.journalId}: debits ₹${journal.debits} != credits ₹${journal.credits}`);
+        }
+        for (const acc of de.accountMismatches) {
+            console.log(`❌ Account ${acc.accountNumber}: postings ₹${acc.posted}, expected ₹${acc.expected}`);
+        }
+        if (!de.suspense.posted.equals(de.suspense.expected)) {
+            console.log(`❌ Suspense: posted ₹${de.suspense.posted}, reservations ₹${de.suspense.expected}`);
+        }
+
+        if (report.consistent) {
+            console.log('\n✅ Ledger is consistent');
+        } else {
+            console.log(`\n⚠️ ${report.accounts.length} account(s) and ${report.transactions.length} transaction issue(s) found`);
+            exitCode = 1;
+        }
+    } catch (error) {
+        console.error('Error:', error);
+        exitCode = 2;
+    } finally {
+        await prisma.$disconnect();
+    }
+
+    process.exit(exitCode);
+}
+
+main();
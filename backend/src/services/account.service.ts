@@ -1,8 +1,9 @@
 import prisma from '../config/database';
 import { generateAccountNumber } from '../utils/helpers';
-import { config } from '../config';
-import { Account, Tier, Role } from '@prisma/client';
+import { Account, Prisma, PrismaClient, Tier, Role } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import { overdraftService } from './overdraft.service';
+import { ledgerService, GL, debit, credit } from './ledger.service';
 
 const INITIAL_BALANCE = 1000;
 
@@ -29,18 +30,24 @@ export class AccountService {
 
         const initialBalance = data.initialDeposit || 1000;
 
-        const account = await prisma.account.create({
-            data: {
-                accountNumber,
-                fullName: data.fullName,
-                aadhaar: data.aadhaar,
-                pan: data.pan.toUpperCase(),
-                mobile: data.mobile,
-                email: data.email.toLowerCase(),
-                tier: data.tier || 'BASIC',
-                balance: new Decimal(initialBalance),
-                role: 'CUSTOMER',
-            },
+        const account = await prisma.$transaction(async (tx) => {
+            const created = await tx.account.create({
+                data: {
+                    accountNumber,
+                    fullName: data.fullName,
+                    aadhaar: data.aadhaar,
+                    pan: data.pan.toUpperCase(),
+                    mobile: data.mobile,
+                    email: data.email.toLowerCase(),
+                    tier: data.tier || 'BASIC',
+                    balance: new Decimal(initialBalance),
+                    role: 'CUSTOMER',
+                },
+            });
+
+            await this.postOpeningDeposit(tx, created.id, new Decimal(initialBalance));
+
+            return created;
         });
 
         // Mock: Send account number via SMS
@@ -55,6 +62,34 @@ export class AccountService {
         return account;
     }
 
+    /**
+     * Record the opening deposit: funded from bank capital, with a statement line
+     */
+    async postOpeningDeposit(
+        client: Prisma.TransactionClient | PrismaClient,
+        accountId: string,
+        amount: Decimal
+    ): Promise<void> {
+        await ledgerService.postJournal(client, {
+            kind: 'OPENING_DEPOSIT',
+            description: 'Opening deposit',
+            legs: [
+                debit({ glCode: GL.BANK_CAPITAL }, amount),
+                credit({ accountId }, amount),
+            ],
+        });
+
+        await client.ledgerEntry.create({
+            data: {
+                accountId,
+                type: 'CREDIT',
+                amount,
+                balanceAfter: amount,
+                description: 'Opening deposit',
+            },
+        });
+    }
+
     /**
      * Get all accounts (admin view)
      */
@@ -80,20 +115,19 @@ export class AccountService {
     }
 
     /**
-     * Get available balance (balance - reserved)
+     * Get available balance (balance - reserved, less the tier minimum or plus the overdraft)
      */
     async getAvailableBalance(accountId: string): Promise<Decimal> {
         const account = await prisma.account.findUnique({
             where: { id: accountId },
-            select: { balance: true, reservedAmount: true, tier: true },
+            select: { balance: true, reservedAmount: true, tier: true, overdraftEnabled: true, overdraftLimit: true },
         });
 
         if (!account) {
             throw new Error('Account not found');
         }
 
-        const tierReserve = new Decimal(config.tierReserves[account.tier] || 0);
-        return account.balance.minus(account.reservedAmount).minus(tierReserve);
+        return overdraftService.spendable(account);
     }
 
     /**
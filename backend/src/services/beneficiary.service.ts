@@ -0,0 +1,201 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { otpService } from './otp.service';
+import { Beneficiary } from '@prisma/client';
+
+const OTP_PURPOSE = 'BENEFICIARY';
+
+export interface CoolingOffStatus {
+    isSaved: boolean;
+    inCoolingOff: boolean;
+    coolingOffUntil?: Date;
+}
+
+export class BeneficiaryService {
+    /**
+     * Start adding a beneficiary - sends an OTP to the owner's mobile
+     */
+    async add(
+        ownerAccountId: string,
+        data: { accountNumber: string; nickname: string }
+    ): Promise<{ beneficiary: Beneficiary; otpCode?: string }> {
+        const owner = await prisma.account.findUnique({
+            where: { id: ownerAccountId },
+        });
+
+        if (!owner) {
+            throw new Error('Account not found');
+        }
+
+        const payee = await prisma.account.findUnique({
+            where: { accountNumber: data.accountNumber },
+        });
+
+        if (!payee || !payee.isActive || payee.role !== 'CUSTOMER') {
+            throw new Error('Beneficiary account not found');
+        }
+
+        if (payee.id === ownerAccountId) {
+            throw new Error('Cannot add your own account as a beneficiary');
+        }
+
+        const existing = await prisma.beneficiary.findUnique({
+            where: {
+                ownerAccountId_beneficiaryAccountId: {
+                    ownerAccountId,
+                    beneficiaryAccountId: payee.id,
+                },
+            },
+        });
+
+        if (existing?.status === 'ACTIVE') {
+            throw new Error('Beneficiary already added');
+        }
+
+        // Re-adding a removed payee starts over (new OTP, new cooling-off)
+        const beneficiary = await prisma.beneficiary.upsert({
+            where: {
+                ownerAccountId_beneficiaryAccountId: {
+                    ownerAccountId,
+                    beneficiaryAccountId: payee.id,
+                },
+            },
+            update: {
+                nickname: data.nickname,
+                verifiedName: payee.fullName,
+                status: 'PENDING_OTP',
+                activatedAt: null,
+            },
+            create: {
+                ownerAccountId,
+                beneficiaryAccountId: payee.id,
+                accountNumber: payee.accountNumber,
+                nickname: data.nickname,
+                verifiedName: payee.fullName,
+            },
+        });
+
+        const otp = await otpService.sendSmsOtp(owner.mobile, OTP_PURPOSE);
+
+        return { beneficiary, otpCode: otp.code };
+    }
+
+    /**
+     * Confirm a pending beneficiary with the OTP sent to the owner
+     */
+    async confirm(id: string, ownerAccountId: string, code: string): Promise<Beneficiary | null> {
+        const beneficiary = await prisma.beneficiary.findFirst({
+            where: { id, ownerAccountId },
+            include: { ownerAccount: { select: { mobile: true } } },
+        });
+
+        if (!beneficiary) {
+            return null;
+        }
+
+        if (beneficiary.status !== 'PENDING_OTP') {
+            throw new Error('Beneficiary is not awaiting confirmation');
+        }
+
+        const result = await otpService.verifyOtp(beneficiary.ownerAccount.mobile, code, 'SMS', OTP_PURPOSE);
+        if (!result.valid) {
+            throw new Error(result.error || 'Invalid or expired OTP');
+        }
+
+        return prisma.beneficiary.update({
+            where: { id },
+            data: { status: 'ACTIVE', activatedAt: new Date() },
+        });
+    }
+
+    /**
+     * List saved beneficiaries with their cooling-off end time
+     */
+    async listForAccount(ownerAccountId: string) {
+        const beneficiaries = await prisma.beneficiary.findMany({
+            where: { ownerAccountId, status: { not: 'REMOVED' } },
+            orderBy: { nickname: 'asc' },
+        });
+
+        return beneficiaries.map(b => ({
+            ...b,
+            coolingOffUntil: b.activatedAt ? this.coolingOffEnd(b.activatedAt) : null,
+        }));
+    }
+
+    /**
+     * Remove a saved beneficiary
+     */
+    async remove(id: string, ownerAccountId: string): Promise<Beneficiary | null> {
+        const beneficiary = await prisma.beneficiary.findFirst({
+            where: { id, ownerAccountId, status: { not: 'REMOVED' } },
+        });
+
+        if (!beneficiary) {
+            return null;
+        }
+
+        return prisma.beneficiary.update({
+            where: { id },
+            data: { status: 'REMOVED', activatedAt: null },
+        });
+    }
+
+    /**
+     * Cooling-off status of a payee for the sender (used by initiateTransfer)
+     */
+    async getCoolingOffStatus(ownerAccountId: string, beneficiaryAccountId: string): Promise<CoolingOffStatus> {
+        const beneficiary = await prisma.beneficiary.findUnique({
+            where: {
+                ownerAccountId_beneficiaryAccountId: { ownerAccountId, beneficiaryAccountId },
+            },
+        });
+
+        if (!beneficiary || beneficiary.status !== 'ACTIVE' || !beneficiary.activatedAt) {
+            return { isSaved: false, inCoolingOff: false };
+        }
+
+        const coolingOffUntil = this.coolingOffEnd(beneficiary.activatedAt);
+
+        return {
+            isSaved: true,
+            inCoolingOff: coolingOffUntil > new Date(),
+            coolingOffUntil,
+        };
+    }
+
+    /**
+     * Apply the payee rules to a transfer: throws if it is not allowed, and says whether it must be
+     * time-locked (saved beneficiaries still in cooling-off; REQUIRE_BENEFICIARY restricts unsaved payees)
+     */
+    async checkTransfer(ownerAccountId: string, payeeAccountId: string, amount: number): Promise<{ forceTimelock: boolean }> {
+        const payee = await this.getCoolingOffStatus(ownerAccountId, payeeAccountId);
+
+        if (config.beneficiaries.required && !payee.isSaved) {
+            throw new Error('Recipient must be a confirmed beneficiary');
+        }
+
+        if (!payee.inCoolingOff) {
+            return { forceTimelock: false };
+        }
+
+        if (config.beneficiaries.coolingOffMode === 'TIMELOCK') {
+            return { forceTimelock: true };
+        }
+
+        if (amount > config.beneficiaries.coolingOffMaxAmount) {
+            throw new Error(
+                `Beneficiary is in cooling-off until ${payee.coolingOffUntil!.toISOString()}. ` +
+                `Maximum transfer is ₹${config.beneficiaries.coolingOffMaxAmount}.`
+            );
+        }
+
+        return { forceTimelock: false };
+    }
+
+    private coolingOffEnd(activatedAt: Date): Date {
+        return new Date(activatedAt.getTime() + config.beneficiaries.coolingOffHours * 60 * 60 * 1000);
+    }
+}
+
+export const beneficiaryService = new BeneficiaryService();
@@ -0,0 +1,97 @@
+import prisma from '../config/database';
+import { config, FeeRule } from '../config';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Tier, Urgency } from '@prisma/client';
+import { utcMonth } from '../utils/clock';
+
+export interface FeeQuote {
+    amount: Decimal;
+    fee: Decimal;
+    totalDebit: Decimal;
+    rule: string | null;
+    waiver: string | null;
+}
+
+export class FeeService {
+    /**
+     * First rule matching urgency and tier
+     */
+    findRule(urgency: Urgency, tier: Tier): FeeRule | undefined {
+        return config.fees.rules.find(rule =>
+            (!rule.urgency || rule.urgency === urgency) &&
+            (!rule.tier || rule.tier === tier)
+        );
+    }
+
+    /**
+     * Fee for an amount under a rule (percentage clamped to min/max, rounded to paise)
+     */
+    calculate(rule: FeeRule, amount: Decimal): Decimal {
+        if (rule.type === 'FLAT') {
+            return new Decimal(rule.value);
+        }
+
+        let fee = amount.times(rule.value).dividedBy(100);
+        if (rule.min !== undefined) {
+            fee = Decimal.max(fee, rule.min);
+        }
+        if (rule.max !== undefined) {
+            fee = Decimal.min(fee, rule.max);
+        }
+        return fee.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+    }
+
+    /**
+     * Quote the fee for a transfer from an account (applies waivers)
+     */
+    async quote(
+        fromAccount: { id: string; tier: Tier },
+        amount: number | Decimal,
+        urgency: Urgency
+    ): Promise<FeeQuote> {
+        const principal = new Decimal(amount);
+        const rule = this.findRule(urgency, fromAccount.tier);
+
+        const result = (fee: Decimal, waiver: string | null): FeeQuote => ({
+            amount: principal,
+            fee,
+            totalDebit: principal.plus(fee),
+            rule: rule?.id ?? null,
+            waiver,
+        });
+
+        if (!rule) {
+            return result(new Decimal(0), null);
+        }
+
+        if (config.fees.waivedUrgencies.includes(urgency)) {
+            return result(new Decimal(0), `${urgency} transfers are free`);
+        }
+
+        const fee = this.calculate(rule, principal);
+        if (fee.isZero()) {
+            return result(fee, null);
+        }
+
+        // Monthly free quota per tier (UTC calendar month, like the daily limit window)
+        const freeQuota = config.fees.freeTransfersPerMonth[fromAccount.tier] || 0;
+        if (freeQuota > 0) {
+            const usedThisMonth = await prisma.transaction.count({
+                where: {
+                    fromAccountId: fromAccount.id,
+                    createdAt: { gte: utcMonth(new Date()) },
+                    status: { notIn: ['FAILED', 'CANCELLED'] },
+                    reversalOfId: null,
+                },
+            });
+
+            if (usedThisMonth < freeQuota) {
+                return result(new Decimal(0), `Free transfer ${usedThisMonth + 1} of ${freeQuota} this month`);
+            }
+        }
+
+        return result(fee, null);
+    }
+}
+
+export const feeService = new FeeService();
@@ -0,0 +1,317 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Decimal } from '@prisma/client/runtime/library';
+import { InterestAccrual, Tier } from '@prisma/client';
+import { ledgerService, GL, debit, credit } from './ledger.service';
+import { overdraftService } from './overdraft.service';
+import { Clock, systemClock, utcDay, utcPeriod } from '../utils/clock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AccrualRunSummary {
+    throughDate: Date;
+    accounts: number;
+    accrued: number;
+    totalAmount: Decimal;
+}
+
+export interface Capitalisation {
+    accountId: string;
+    period: string;
+    credited: Decimal;
+    charged: Decimal;
+    balanceAfter: Decimal;
+    overdraftBreached: boolean;
+}
+
+export class InterestService {
+    constructor(private readonly clock: Clock = systemClock) {}
+
+    /**
+     * Annual rate (%) for a tier
+     */
+    rateFor(tier: Tier): Decimal {
+        return new Decimal(config.interest.annualRates[tier] || 0);
+    }
+
+    /**
+     * Balance at the end of a UTC day, from the last ledger entry posted before midnight
+     * Accounts opened before ledger entries were written have no opening entry: before their first
+     * entry the balance is worked back from it, and with no entries at all it is the current balance
+     */
+    async closingBalance(accountId: string, day: Date): Promise<Decimal> {
+        const last = await prisma.ledgerEntry.findFirst({
+            where: { accountId, createdAt: { lt: new Date(day.getTime() + DAY_MS) } },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            select: { balanceAfter: true },
+        });
+
+        if (last) {
+            return last.balanceAfter;
+        }
+
+        const first = await prisma.ledgerEntry.findFirst({
+            where: { accountId },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            select: { type: true, amount: true, balanceAfter: true },
+        });
+
+        if (!first) {
+            const account = await prisma.account.findUnique({
+                where: { id: accountId },
+                select: { balance: true },
+            });
+            return account ? account.balance : new Decimal(0);
+        }
+
+        // RESERVE / RELEASE move funds to and from reservedAmount without changing the balance
+        switch (first.type) {
+            case 'CREDIT':
+                return first.balanceAfter.minus(first.amount);
+            case 'DEBIT':
+                return first.balanceAfter.plus(first.amount);
+            default:
+                return first.balanceAfter;
+        }
+    }
+
+    /**
+     * Accrue interest for every completed day not yet accrued (up to yesterday per the clock)
+     */
+    async accrue(): Promise<AccrualRunSummary> {
+        const throughDate = new Date(utcDay(this.clock.now()).getTime() - DAY_MS);
+        const earliest = new Date(throughDate.getTime() - (config.interest.maxCatchUpDays - 1) * DAY_MS);
+
+        const accounts = await prisma.account.findMany({
+            where: { role: 'CUSTOMER', isActive: true },
+            select: { id: true, tier: true, createdAt: true },
+        });
+        const overdraftRate = new Decimal(config.overdraft.annualRate);
+
+        let accrued = 0;
+        let totalAmount = new Decimal(0);
+
+        for (const account of accounts) {
+            const last = await prisma.interestAccrual.findFirst({
+                where: { accountId: account.id },
+                orderBy: { accrualDate: 'desc' },
+                select: { accrualDate: true },
+            });
+
+            let day = last
+                ? new Date(last.accrualDate.getTime() + DAY_MS)
+                : utcDay(account.createdAt);
+            if (day < earliest) {
+                day = earliest;
+            }
+
+            const savingsRate = this.rateFor(account.tier);
+            const rows = [];
+
+            for (; day <= throughDate; day = new Date(day.getTime() + DAY_MS)) {
+                const closingBalance = await this.closingBalance(account.id, day);
+                // Overdrawn days accrue a (negative) charge at the overdraft rate
+                const annualRate = closingBalance.lessThan(0) ? overdraftRate : savingsRate;
+                const amount = closingBalance.times(annualRate).dividedBy(100).dividedBy(config.interest.dayCountBasis)
+                    .toDecimalPlaces(6, Decimal.ROUND_DOWN);
+
+                rows.push({
+                    accountId: account.id,
+                    accrualDate: day,
+                    period: utcPeriod(day),
+                    closingBalance,
+                    annualRate,
+                    amount,
+                });
+                totalAmount = totalAmount.plus(amount);
+            }
+
+            if (rows.length > 0) {
+                // skipDuplicates: a concurrent run may have written the same days
+                const { count } = await prisma.interestAccrual.createMany({ data: rows, skipDuplicates: true });
+                accrued += count;
+            }
+        }
+
+        return { throughDate, accounts: accounts.length, accrued, totalAmount };
+    }
+
+    /**
+     * Credit accrued interest for every closed month (before the clock's current month)
+     */
+    async capitalise(): Promise<Capitalisation[]> {
+        const currentPeriod = utcPeriod(this.clock.now());
+
+        const groups = await prisma.interestAccrual.groupBy({
+            by: ['accountId', 'period'],
+            where: { capitalisedAt: null, period: { lt: currentPeriod } },
+            orderBy: [{ period: 'asc' }, { accountId: 'asc' }],
+        });
+
+        const results: Capitalisation[] = [];
+
+        for (const { accountId, period } of groups) {
+            const result = await this.capitaliseAccountPeriod(accountId, period);
+            if (result) {
+                results.push(result);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Settle one account's interest for one month: savings interest is credited,
+     * overdraft interest charged, each with a statement line and an INTEREST journal
+     */
+    private async capitaliseAccountPeriod(accountId: string, period: string): Promise<Capitalisation | null> {
+        return prisma.$transaction(async (tx) => {
+            const accruals = await tx.interestAccrual.findMany({
+                where: { accountId, period, capitalisedAt: null },
+                select: { id: true, amount: true },
+            });
+
+            if (accruals.length === 0) {
+                return null;
+            }
+
+            let earned = new Decimal(0);
+            let owed = new Decimal(0);
+            for (const { amount } of accruals) {
+                if (amount.greaterThan(0)) {
+                    earned = earned.plus(amount);
+                } else {
+                    owed = owed.minus(amount);
+                }
+            }
+            const credited = earned.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+            const charged = owed.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+            let journalId: string | null = null;
+            let account = null;
+
+            if (credited.greaterThan(0)) {
+                account = await tx.account.update({
+                    where: { id: accountId },
+                    data: { balance: { increment: credited } },
+                });
+
+                await tx.ledgerEntry.create({
+                    data: {
+                        accountId,
+                        type: 'CREDIT',
+                        amount: credited,
+                        balanceAfter: account.balance,
+                        description: `Interest for ${period}`,
+                    },
+                });
+
+                const journal = await ledgerService.postJournal(tx, {
+                    kind: 'INTEREST',
+                    description: `Interest for ${period}`,
+                    legs: [
+                        debit({ glCode: GL.INTEREST_EXPENSE }, credited),
+                        credit({ accountId }, credited),
+                    ],
+                });
+                journalId = journal.id;
+            }
+
+            if (charged.greaterThan(0)) {
+                // Charged even past the limit; the account is then blocked until repaid
+                account = await tx.account.update({
+                    where: { id: accountId },
+                    data: { balance: { decrement: charged } },
+                });
+
+                await tx.ledgerEntry.create({
+                    data: {
+                        accountId,
+                        type: 'DEBIT',
+                        amount: charged,
+                        balanceAfter: account.balance,
+                        description: `Overdraft interest for ${period}`,
+                    },
+                });
+
+                const journal = await ledgerService.postJournal(tx, {
+                    kind: 'INTEREST',
+                    description: `Overdraft interest for ${period}`,
+                    legs: [
+                        debit({ accountId }, charged),
+                        credit({ glCode: GL.INTEREST_INCOME }, charged),
+                    ],
+                });
+                journalId = journalId ?? journal.id;
+            }
+
+            // Guard against a concurrent run having settled the same accruals
+            const { count } = await tx.interestAccrual.updateMany({
+                where: { id: { in: accruals.map(a => a.id) }, capitalisedAt: null },
+                data: { capitalisedAt: this.clock.now(), journalId },
+            });
+
+            if (count !== accruals.length) {
+                throw new Error(`Interest for ${period} on account ${accountId} was capitalised concurrently`);
+            }
+
+            if (!account) {
+                return null;
+            }
+
+            return {
+                accountId,
+                period,
+                credited,
+                charged,
+                balanceAfter: account.balance,
+                overdraftBreached: overdraftService.isBreached(account),
+            };
+        });
+    }
+
+    /**
+     * Accrual history for an account with the running (uncapitalised) total
+     * Negative amounts are overdraft interest owed
+     */
+    async getHistory(accountId: string, from?: Date, to?: Date): Promise<{
+        annualRate: Decimal;
+        accruedUncapitalised: Decimal;
+        accruals: InterestAccrual[];
+    }> {
+        const account = await prisma.account.findUnique({
+            where: { id: accountId },
+            select: { tier: true },
+        });
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        const [accruals, pending] = await Promise.all([
+            prisma.interestAccrual.findMany({
+                where: {
+                    accountId,
+                    accrualDate: {
+                        ...(from ? { gte: utcDay(from) } : {}),
+                        ...(to ? { lte: utcDay(to) } : {}),
+                    },
+                },
+                orderBy: { accrualDate: 'desc' },
+                take: 366,
+            }),
+            prisma.interestAccrual.aggregate({
+                where: { accountId, capitalisedAt: null },
+                _sum: { amount: true },
+            }),
+        ]);
+
+        return {
+            annualRate: this.rateFor(account.tier),
+            accruedUncapitalised: pending._sum.amount ?? new Decimal(0),
+            accruals,
+        };
+    }
+}
+
+export const interestService = new InterestService();
@@ -0,0 +1,125 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import redis, { REDIS_KEYS } from '../config/redis';
+import { config } from '../config';
+
+/**
+ * Workers that must run on exactly one instance at a time
+ */
+export const LEASES = ['timelock', 'queue', 'settlement', 'schedule', 'standing', 'interest'] as const;
+export type LeaseName = typeof LEASES[number];
+
+export interface LeaseStatus {
+    name: LeaseName;
+    holder: string | null;
+    expiresInMs: number | null;
+    isSelf: boolean;
+}
+
+/**
+ * Redis-based leader election
+ * Each lease is a key holding the owner's instance id with a TTL. The holder renews it every
+ * renewIntervalMs; if it dies, the key expires and the next instance to renew takes over.
+ */
+export class LeaderService {
+    readonly instanceId = config.leaderElection.instanceId
+        || `${hostname()}:${process.pid}:${randomBytes(3).toString('hex')}`;
+
+    // Local view of each lease we hold: valid until this time (ms)
+    private heldUntil = new Map<LeaseName, number>();
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start competing for the leases (renews immediately, then every renewIntervalMs)
+     */
+    async start(): Promise<void> {
+        if (this.intervalId) {
+            return;
+        }
+
+        await this.renewAll();
+        this.intervalId = setInterval(() => {
+            this.renewAll().catch(error => console.error('❌ Leader lease renewal error:', error));
+        }, config.leaderElection.renewIntervalMs);
+
+        console.log(`👑 Leader election started as ${this.instanceId}`);
+    }
+
+    /**
+     * Stop renewing and hand our leases over so another instance can take them at once
+     */
+    async stop(): Promise<void> {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+
+        for (const name of this.heldUntil.keys()) {
+            await redis.leaseRelease(REDIS_KEYS.LEADER_LEASE(name), this.instanceId);
+        }
+        this.heldUntil.clear();
+    }
+
+    /**
+     * Whether this instance currently holds the lease
+     * Trusts the local view only until the TTL it last set would have expired
+     */
+    isLeader(name: LeaseName): boolean {
+        return (this.heldUntil.get(name) ?? 0) > Date.now();
+    }
+
+    /**
+     * Who holds each lease and for how much longer
+     */
+    async getStatus(): Promise<{ instanceId: string; leases: LeaseStatus[] }> {
+        const leases = await Promise.all(LEASES.map(async (name): Promise<LeaseStatus> => {
+            const key = REDIS_KEYS.LEADER_LEASE(name);
+            const [holder, ttl] = await Promise.all([redis.get(key), redis.pttl(key)]);
+
+            return {
+                name,
+                holder,
+                expiresInMs: holder && ttl >= 0 ? ttl : null,
+                isSelf: holder === this.instanceId,
+            };
+        }));
+
+        return { instanceId: this.instanceId, leases };
+    }
+
+    /**
+     * Acquire or extend every lease, logging leadership changes
+     */
+    private async renewAll(): Promise<void> {
+        const { leaseTtlMs } = config.leaderElection;
+
+        for (const name of LEASES) {
+            const startedAt = Date.now();
+            const wasLeader = this.isLeader(name);
+            let held = false;
+
+            try {
+                held = (await redis.leaseAcquire(REDIS_KEYS.LEADER_LEASE(name), this.instanceId, leaseTtlMs)) === 1;
+            } catch (error) {
+                // Redis unreachable: keep the local lease until it would have expired anyway
+                console.error(`❌ Could not renew ${name} lease:`, error);
+                continue;
+            }
+
+            if (held) {
+                // Measured from before the call, so we never believe the lease outlives Redis' TTL
+                this.heldUntil.set(name, startedAt + leaseTtlMs);
+                if (!wasLeader) {
+                    console.log(`👑 Acquired ${name} lease`);
+                }
+            } else {
+                this.heldUntil.delete(name);
+                if (wasLeader) {
+                    console.warn(`⚠️ Lost ${name} lease to another instance`);
+                }
+            }
+        }
+    }
+}
+
+export const leaderService = new LeaderService();
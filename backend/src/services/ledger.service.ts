@@ -0,0 +1,210 @@
+import prisma from '../config/database';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Journal, JournalKind, PostingDirection, Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Internal GL account codes (seeded by migration)
+ */
+export const GL = {
+    BANK_CAPITAL: 'BANK_CAPITAL',
+    SUSPENSE: 'SUSPENSE',
+    FEE_INCOME: 'FEE_INCOME',
+    INTEREST_EXPENSE: 'INTEREST_EXPENSE',
+    INTEREST_INCOME: 'INTEREST_INCOME',
+} as const;
+
+export type GlCode = typeof GL[keyof typeof GL];
+
+export type PostingTarget = { accountId: string } | { glCode: GlCode };
+
+export interface Leg {
+    target: PostingTarget;
+    direction: PostingDirection;
+    amount: Decimal;
+}
+
+type LedgerClient = Prisma.TransactionClient | PrismaClient;
+
+export function debit(target: PostingTarget, amount: Decimal | number): Leg {
+    return { target, direction: 'DEBIT', amount: new Decimal(amount) };
+}
+
+export function credit(target: PostingTarget, amount: Decimal | number): Leg {
+    return { target, direction: 'CREDIT', amount: new Decimal(amount) };
+}
+
+export interface DoubleEntryReport {
+    totalDebits: Decimal;
+    totalCredits: Decimal;
+    net: Decimal; // Must be zero
+    unbalancedJournals: { journalId: string; debits: Decimal; credits: Decimal }[];
+    // Customer postings must equal available funds (balance - reservedAmount)
+    accountMismatches: { accountId: string; accountNumber: string; expected: Decimal; posted: Decimal }[];
+    // Suspense holds exactly the sum of all reservations
+    suspense: { expected: Decimal; posted: Decimal };
+    balanced: boolean;
+}
+
+export class LedgerService {
+    /**
+     * Post a balanced journal inside the caller's DB transaction
+     * Throws if debits and credits differ, so an unbalanced movement can never be written
+     */
+    async postJournal(
+        client: LedgerClient,
+        journal: { kind: JournalKind; transactionId?: string; description?: string; legs: Leg[] }
+    ): Promise<Journal> {
+        let debits = new Decimal(0);
+        let credits = new Decimal(0);
+
+        for (const leg of journal.legs) {
+            if (leg.amount.lessThanOrEqualTo(0)) {
+                throw new Error('Posting amount must be positive');
+            }
+            if (leg.direction === 'DEBIT') {
+                debits = debits.plus(leg.amount);
+            } else {
+                credits = credits.plus(leg.amount);
+            }
+        }
+
+        if (journal.legs.length < 2 || !debits.equals(credits)) {
+            throw new Error(`Unbalanced journal (${journal.kind}): debits ₹${debits} != credits ₹${credits}`);
+        }
+
+        return client.journal.create({
+            data: {
+                kind: journal.kind,
+                transactionId: journal.transactionId,
+                description: journal.description,
+                postings: {
+                    create: journal.legs.map(leg => ({
+                        ...leg.target,
+                        direction: leg.direction,
+                        amount: leg.amount,
+                    })),
+                },
+            },
+        });
+    }
+
+    /**
+     * Balance of every GL account and the customer total (debit-positive)
+     */
+    async getTrialBalance(): Promise<{
+        glAccounts: { code: string; name: string; type: string; debits: Decimal; credits: Decimal; balance: Decimal }[];
+        customerAccounts: { debits: Decimal; credits: Decimal; balance: Decimal };
+        net: Decimal;
+    }> {
+        const [glAccounts, glSums, customerSums] = await Promise.all([
+            prisma.glAccount.findMany({ orderBy: { code: 'asc' } }),
+            prisma.posting.groupBy({
+                by: ['glCode', 'direction'],
+                where: { glCode: { not: null } },
+                _sum: { amount: true },
+            }),
+            prisma.posting.groupBy({
+                by: ['direction'],
+                where: { accountId: { not: null } },
+                _sum: { amount: true },
+            }),
+        ]);
+
+        const glSum = (code: string, direction: PostingDirection) =>
+            glSums.find(g => g.glCode === code && g.direction === direction)?._sum.amount ?? new Decimal(0);
+        const customerSum = (direction: PostingDirection) =>
+            customerSums.find(g => g.direction === direction)?._sum.amount ?? new Decimal(0);
+
+        const gl = glAccounts.map(acc => {
+            const debits = glSum(acc.code, 'DEBIT');
+            const credits = glSum(acc.code, 'CREDIT');
+            return { code: acc.code, name: acc.name, type: acc.type, debits, credits, balance: debits.minus(credits) };
+        });
+
+        const customerDebits = customerSum('DEBIT');
+        const customerCredits = customerSum('CREDIT');
+        const customerBalance = customerDebits.minus(customerCredits);
+
+        return {
+            glAccounts: gl,
+            customerAccounts: { debits: customerDebits, credits: customerCredits, balance: customerBalance },
+            net: gl.reduce((sum, acc) => sum.plus(acc.balance), customerBalance),
+        };
+    }
+
+    /**
+     * Verify the double-entry invariants
+     */
+    async checkInvariants(): Promise<DoubleEntryReport> {
+        const [totals, byJournal, byAccount, suspenseSums, accounts] = await Promise.all([
+            prisma.posting.groupBy({ by: ['direction'], _sum: { amount: true } }),
+            prisma.posting.groupBy({ by: ['journalId', 'direction'], _sum: { amount: true } }),
+            prisma.posting.groupBy({
+                by: ['accountId', 'direction'],
+                where: { accountId: { not: null } },
+                _sum: { amount: true },
+            }),
+            prisma.posting.groupBy({
+                by: ['direction'],
+                where: { glCode: GL.SUSPENSE },
+                _sum: { amount: true },
+            }),
+            prisma.account.findMany({
+                select: { id: true, accountNumber: true, balance: true, reservedAmount: true },
+            }),
+        ]);
+
+        const zero = new Decimal(0);
+        const sumFor = <T extends { direction: PostingDirection; _sum: { amount: Decimal | null } }>(
+            rows: T[],
+            direction: PostingDirection,
+            match: (row: T) => boolean = () => true
+        ) => rows.find(r => r.direction === direction && match(r))?._sum.amount ?? zero;
+
+        const totalDebits = sumFor(totals, 'DEBIT');
+        const totalCredits = sumFor(totals, 'CREDIT');
+
+        const journalIds = new Set(byJournal.map(j => j.journalId));
+        const unbalancedJournals = [...journalIds]
+            .map(journalId => ({
+                journalId,
+                debits: sumFor(byJournal, 'DEBIT', r => r.journalId === journalId),
+                credits: sumFor(byJournal, 'CREDIT', r => r.journalId === journalId),
+            }))
+            .filter(j => !j.debits.equals(j.credits));
+
+        const accountMismatches: DoubleEntryReport['accountMismatches'] = [];
+        let totalReserved = zero;
+
+        for (const account of accounts) {
+            totalReserved = totalReserved.plus(account.reservedAmount);
+
+            const posted = sumFor(byAccount, 'CREDIT', r => r.accountId === account.id)
+                .minus(sumFor(byAccount, 'DEBIT', r => r.accountId === account.id));
+            const expected = account.balance.minus(account.reservedAmount);
+
+            if (!posted.equals(expected)) {
+                accountMismatches.push({ accountId: account.id, accountNumber: account.accountNumber, expected, posted });
+            }
+        }
+
+        const suspensePosted = sumFor(suspenseSums, 'CREDIT').minus(sumFor(suspenseSums, 'DEBIT'));
+        const net = totalDebits.minus(totalCredits);
+
+        return {
+            totalDebits,
+            totalCredits,
+            net,
+            unbalancedJournals,
+            accountMismatches,
+            suspense: { expected: totalReserved, posted: suspensePosted },
+            balanced:
+                net.isZero() &&
+                unbalancedJournals.length === 0 &&
+                accountMismatches.length === 0 &&
+                suspensePosted.equals(totalReserved),
+        };
+    }
+}
+
+export const ledgerService = new LedgerService();
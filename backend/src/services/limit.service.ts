@@ -0,0 +1,195 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { utcDay } from '../utils/clock';
+import { Decimal } from '@prisma/client/runtime/library';
+import { AccountLimit, Tier } from '@prisma/client';
+
+export interface TransferLimits {
+    perTransaction: Decimal;
+    dailyAmount: Decimal;
+    dailyCount: number;
+}
+
+export interface LimitInput {
+    perTransaction?: number | null;
+    dailyAmount?: number | null;
+    dailyCount?: number | null;
+}
+
+export class LimitService {
+    /**
+     * Limits before customer self-limits: admin override, else tier default
+     */
+    getBaseLimits(tier: Tier, limits: AccountLimit | null): TransferLimits {
+        const tierDefault = config.tierLimits[tier];
+
+        return {
+            perTransaction: limits?.adminPerTransaction ?? new Decimal(tierDefault.perTransaction),
+            dailyAmount: limits?.adminDailyAmount ?? new Decimal(tierDefault.dailyAmount),
+            dailyCount: limits?.adminDailyCount ?? tierDefault.dailyCount,
+        };
+    }
+
+    /**
+     * Effective limits for an account (customer self-limits can only lower the base)
+     */
+    async getEffectiveLimits(accountId: string): Promise<{ base: TransferLimits; effective: TransferLimits }> {
+        const account = await prisma.account.findUnique({
+            where: { id: accountId },
+            include: { limits: true },
+        });
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        const base = this.getBaseLimits(account.tier, account.limits);
+        const own = account.limits;
+
+        return {
+            base,
+            effective: {
+                perTransaction: own?.customerPerTransaction
+                    ? Decimal.min(base.perTransaction, own.customerPerTransaction)
+                    : base.perTransaction,
+                dailyAmount: own?.customerDailyAmount
+                    ? Decimal.min(base.dailyAmount, own.customerDailyAmount)
+                    : base.dailyAmount,
+                dailyCount: own?.customerDailyCount != null
+                    ? Math.min(base.dailyCount, own.customerDailyCount)
+                    : base.dailyCount,
+            },
+        };
+    }
+
+    /**
+     * Outgoing transfers since midnight UTC (failed/cancelled ones and reversals do not count)
+     */
+    async getDailyUsage(accountId: string): Promise<{ amount: Decimal; count: number }> {
+        const usage = await prisma.transaction.aggregate({
+            where: {
+                fromAccountId: accountId,
+                createdAt: { gte: utcDay(new Date()) },
+                status: { notIn: ['FAILED', 'CANCELLED'] },
+                reversalOfId: null,
+            },
+            _sum: { amount: true },
+            _count: true,
+        });
+
+        return {
+            amount: usage._sum.amount ?? new Decimal(0),
+            count: usage._count,
+        };
+    }
+
+    /**
+     * Limits, today's usage and remaining headroom
+     */
+    async getHeadroom(accountId: string) {
+        const [{ base, effective }, used] = await Promise.all([
+            this.getEffectiveLimits(accountId),
+            this.getDailyUsage(accountId),
+        ]);
+
+        const remainingAmount = Decimal.max(effective.dailyAmount.minus(used.amount), 0);
+
+        return {
+            limits: effective,
+            baseLimits: base,
+            used,
+            remaining: {
+                // A single transfer is bounded by both the per-transaction and daily limits
+                perTransaction: Decimal.min(effective.perTransaction, remainingAmount),
+                dailyAmount: remainingAmount,
+                dailyCount: Math.max(effective.dailyCount - used.count, 0),
+            },
+            resetsAt: new Date(utcDay(new Date()).getTime() + 24 * 60 * 60 * 1000),
+        };
+    }
+
+    /**
+     * Throw if a new transfer of `amount` would break any limit
+     * PENDING counts transfers not created yet but planned ahead of this one (e.g. earlier payout rows)
+     */
+    async assertWithinLimits(
+        accountId: string,
+        amount: number,
+        pending: { amount: Decimal; count: number } = { amount: new Decimal(0), count: 0 }
+    ): Promise<void> {
+        const headroom = await this.getHeadroom(accountId);
+        const limits = headroom.limits;
+        const used = {
+            amount: headroom.used.amount.plus(pending.amount),
+            count: headroom.used.count + pending.count,
+        };
+
+        if (limits.perTransaction.lessThan(amount)) {
+            throw new Error(`Amount exceeds per-transaction limit of ₹${limits.perTransaction}`);
+        }
+
+        if (used.count >= limits.dailyCount) {
+            throw new Error(`Daily transfer count limit of ${limits.dailyCount} reached`);
+        }
+
+        if (used.amount.plus(amount).greaterThan(limits.dailyAmount)) {
+            throw new Error(
+                `Amount exceeds daily limit of ₹${limits.dailyAmount} (₹${limits.dailyAmount.minus(used.amount)} remaining today)`
+            );
+        }
+    }
+
+    /**
+     * Set customer self-limits (null clears a limit; cannot exceed the base limit)
+     */
+    async setCustomerLimits(accountId: string, input: LimitInput): Promise<AccountLimit> {
+        const { base } = await this.getEffectiveLimits(accountId);
+
+        if (input.perTransaction != null && base.perTransaction.lessThan(input.perTransaction)) {
+            throw new Error(`Per-transaction limit cannot exceed ₹${base.perTransaction}`);
+        }
+        if (input.dailyAmount != null && base.dailyAmount.lessThan(input.dailyAmount)) {
+            throw new Error(`Daily limit cannot exceed ₹${base.dailyAmount}`);
+        }
+        if (input.dailyCount != null && input.dailyCount > base.dailyCount) {
+            throw new Error(`Daily transfer count cannot exceed ${base.dailyCount}`);
+        }
+
+        const data = {
+            customerPerTransaction: this.toDecimal(input.perTransaction),
+            customerDailyAmount: this.toDecimal(input.dailyAmount),
+            customerDailyCount: input.dailyCount,
+        };
+
+        return prisma.accountLimit.upsert({
+            where: { accountId },
+            update: data,
+            create: { accountId, ...data },
+        });
+    }
+
+    /**
+     * Set admin overrides for an account (null restores the tier default)
+     */
+    async setAdminOverrides(accountId: string, input: LimitInput, adminId: string): Promise<AccountLimit> {
+        const data = {
+            adminPerTransaction: this.toDecimal(input.perTransaction),
+            adminDailyAmount: this.toDecimal(input.dailyAmount),
+            adminDailyCount: input.dailyCount,
+            adminUpdatedBy: adminId,
+        };
+
+        return prisma.accountLimit.upsert({
+            where: { accountId },
+            update: data,
+            create: { accountId, ...data },
+        });
+    }
+
+    // undefined = leave unchanged, null = clear
+    private toDecimal(value: number | null | undefined): Decimal | null | undefined {
+        return value === undefined || value === null ? value : new Decimal(value);
+    }
+}
+
+export const limitService = new LimitService();
@@ -30,7 +30,7 @@ export const otpService = {
     /**
      * Send OTP via SMS using Twilio
      */
-    async sendSmsOtp(mobile: string): Promise<{ success: boolean; code?: string }> {
+    async sendSmsOtp(mobile: string, purpose: string = 'VERIFICATION'): Promise<{ success: boolean; code?: string }> {
         const code = generateOtpCode();
         const expiresAt = new Date(Date.now() + config.otpTtlMinutes * 60 * 1000);
 
@@ -40,6 +40,7 @@ export const otpService = {
                 identifier: mobile,
                 code,
                 type: OtpType.SMS,
+                purpose,
                 expiresAt,
             },
         });
@@ -127,12 +128,14 @@ export const otpService = {
     async verifyOtp(
         identifier: string,
         code: string,
-        type: OtpType
+        type: OtpType,
+        purpose: string = 'VERIFICATION'
     ): Promise<{ valid: boolean; error?: string }> {
         const otp = await prisma.otp.findFirst({
             where: {
                 identifier,
                 type,
+                purpose,
                 verified: false,
             },
             orderBy: { createdAt: 'desc' },
@@ -191,7 +194,7 @@ export const otpService = {
      */
     async checkMobileVerification(mobile: string): Promise<boolean> {
         const smsOtp = await prisma.otp.findFirst({
-            where: { identifier: mobile, type: OtpType.SMS, verified: true },
+            where: { identifier: mobile, type: OtpType.SMS, purpose: 'VERIFICATION', verified: true },
             orderBy: { createdAt: 'desc' },
         });
         return !!smsOtp;
@@ -0,0 +1,148 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Tier } from '@prisma/client';
+
+type OverdraftAccount = {
+    balance: Decimal;
+    reservedAmount: Decimal;
+    tier: Tier;
+    overdraftEnabled: boolean;
+    overdraftLimit: Decimal | null;
+};
+
+export interface OverdraftStatus {
+    enabled: boolean;
+    limit: Decimal;
+    tierDefault: Decimal;
+    adminOverride: Decimal | null;
+    used: Decimal;
+    available: Decimal;
+    breached: boolean;
+    annualRate: number;
+}
+
+export class OverdraftService {
+    /**
+     * Overdraft limit offered to the account (admin override, else tier default)
+     */
+    offeredLimit(account: Pick<OverdraftAccount, 'tier' | 'overdraftLimit'>): Decimal {
+        return account.overdraftLimit ?? new Decimal(config.overdraft.tierLimits[account.tier] || 0);
+    }
+
+    /**
+     * Limit in force: zero unless the customer has opted in
+     */
+    effectiveLimit(account: Pick<OverdraftAccount, 'tier' | 'overdraftEnabled' | 'overdraftLimit'>): Decimal {
+        return account.overdraftEnabled ? this.offeredLimit(account) : new Decimal(0);
+    }
+
+    /**
+     * Funds that can still be debited
+     * With an overdraft the floor is -limit; without one the tier minimum balance applies
+     */
+    spendable(account: OverdraftAccount): Decimal {
+        const free = account.balance.minus(account.reservedAmount);
+        const limit = this.effectiveLimit(account);
+
+        if (limit.greaterThan(0)) {
+            return free.plus(limit);
+        }
+
+        return free.minus(config.tierReserves[account.tier] || 0);
+    }
+
+    /**
+     * Overdrawn past the limit (e.g. after interest was charged or the limit was lowered)
+     */
+    isBreached(account: OverdraftAccount): boolean {
+        return account.balance.minus(account.reservedAmount).lessThan(this.effectiveLimit(account).negated());
+    }
+
+    /**
+     * Throw unless the account can take a debit of this size
+     */
+    assertCanDebit(account: OverdraftAccount, amount: Decimal): void {
+        const limit = this.effectiveLimit(account);
+
+        if (this.isBreached(account)) {
+            throw new Error(`Overdraft limit of ₹${limit} exceeded. Debits are blocked until the balance is back within the limit.`);
+        }
+
+        if (this.spendable(account).lessThan(amount)) {
+            if (limit.greaterThan(0)) {
+                throw new Error(`Insufficient balance. Overdraft limit of ₹${limit} would be exceeded.`);
+            }
+            const tierReserve = new Decimal(config.tierReserves[account.tier] || 0);
+            throw new Error(`Insufficient balance. Minimum balance of ₹${tierReserve} must be maintained.`);
+        }
+    }
+
+    /**
+     * Overdraft position for an account
+     */
+    async getStatus(accountId: string): Promise<OverdraftStatus> {
+        const account = await prisma.account.findUnique({ where: { id: accountId } });
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        return this.toStatus(account);
+    }
+
+    private toStatus(account: OverdraftAccount): OverdraftStatus {
+        const used = account.balance.lessThan(0) ? account.balance.negated() : new Decimal(0);
+
+        return {
+            enabled: account.overdraftEnabled,
+            limit: this.effectiveLimit(account),
+            tierDefault: new Decimal(config.overdraft.tierLimits[account.tier] || 0),
+            adminOverride: account.overdraftLimit,
+            used,
+            available: Decimal.max(this.spendable(account), 0),
+            breached: this.isBreached(account),
+            annualRate: config.overdraft.annualRate,
+        };
+    }
+
+    /**
+     * Customer opt-in / opt-out
+     */
+    async setEnabled(accountId: string, enabled: boolean): Promise<OverdraftStatus> {
+        const account = await prisma.account.findUnique({ where: { id: accountId } });
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        if (enabled && this.offeredLimit(account).lessThanOrEqualTo(0)) {
+            throw new Error(`Overdraft is not available for ${account.tier} accounts`);
+        }
+
+        if (!enabled && account.balance.lessThan(0)) {
+            throw new Error('Overdraft cannot be switched off while the account is overdrawn');
+        }
+
+        const updated = await prisma.account.update({
+            where: { id: accountId },
+            data: { overdraftEnabled: enabled },
+        });
+
+        return this.toStatus(updated);
+    }
+
+    /**
+     * Admin override of the limit (null restores the tier default)
+     */
+    async setLimit(accountId: string, limit: number | null): Promise<OverdraftStatus> {
+        const updated = await prisma.account.update({
+            where: { id: accountId },
+            data: { overdraftLimit: limit === null ? null : new Decimal(limit) },
+        });
+
+        return this.toStatus(updated);
+    }
+}
+
+export const overdraftService = new OverdraftService();
@@ -0,0 +1,210 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PaymentRequest, Prisma, Transaction, Urgency } from '@prisma/client';
+import { transactionService } from './transaction.service';
+import { hashPayload } from '../utils/helpers';
+
+const PARTY_SELECT = { select: { accountNumber: true, fullName: true } };
+
+export class PaymentRequestService {
+    /**
+     * Ask another customer for money
+     */
+    async create(
+        requesterAccountId: string,
+        data: { payerAccountNumber: string; amount: number; note?: string; expiresInHours?: number }
+    ): Promise<PaymentRequest> {
+        const payer = await prisma.account.findUnique({
+            where: { accountNumber: data.payerAccountNumber },
+        });
+
+        if (!payer || !payer.isActive || payer.role !== 'CUSTOMER') {
+            throw new Error('Payer account not found');
+        }
+
+        if (payer.id === requesterAccountId) {
+            throw new Error('Cannot request money from your own account');
+        }
+
+        const expiresInHours = data.expiresInHours ?? config.paymentRequests.defaultExpiryHours;
+        if (expiresInHours > config.paymentRequests.maxExpiryHours) {
+            throw new Error(`Expiry cannot exceed ${config.paymentRequests.maxExpiryHours} hours`);
+        }
+
+        await this.expireDue();
+
+        const open = await prisma.paymentRequest.count({
+            where: { requesterAccountId, status: 'PENDING' },
+        });
+        if (open >= config.paymentRequests.maxPendingPerRequester) {
+            throw new Error(`You already have ${open} open payment requests`);
+        }
+
+        return prisma.paymentRequest.create({
+            data: {
+                requesterAccountId,
+                payerAccountId: payer.id,
+                amount: new Decimal(data.amount),
+                note: data.note,
+                expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+            },
+            include: { requesterAccount: PARTY_SELECT, payerAccount: PARTY_SELECT },
+        });
+    }
+
+    /**
+     * Mark unanswered requests past their expiry
+     */
+    async expireDue(): Promise<number> {
+        const { count } = await prisma.paymentRequest.updateMany({
+            where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+            data: { status: 'EXPIRED' },
+        });
+        return count;
+    }
+
+    /**
+     * Requests addressed to the account (pending only unless all=true)
+     */
+    async listIncoming(payerAccountId: string, all = false): Promise<PaymentRequest[]> {
+        await this.expireDue();
+
+        return prisma.paymentRequest.findMany({
+            where: { payerAccountId, ...(all ? {} : { status: 'PENDING' }) },
+            include: { requesterAccount: PARTY_SELECT },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+        });
+    }
+
+    /**
+     * Requests the account has sent
+     */
+    async listOutgoing(requesterAccountId: string): Promise<PaymentRequest[]> {
+        await this.expireDue();
+
+        return prisma.paymentRequest.findMany({
+            where: { requesterAccountId },
+            include: { payerAccount: PARTY_SELECT },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+        });
+    }
+
+    /**
+     * Pay a request: creates a normal transfer from the payer to the requester
+     * The request is claimed first so it can only be paid once; a refused transfer puts it back
+     */
+    async accept(
+        id: string,
+        payerAccountId: string,
+        options: { urgency?: Urgency; maxFee?: number } = {}
+    ): Promise<{ request: PaymentRequest; transaction: Transaction }> {
+        const request = await prisma.paymentRequest.findFirst({
+            where: { id, payerAccountId },
+            include: { requesterAccount: true },
+        });
+
+        if (!request) {
+            throw new Error('Payment request not found');
+        }
+
+        if (request.status !== 'PENDING') {
+            throw new Error(`Payment request is ${request.status.toLowerCase()}`);
+        }
+
+        if (request.expiresAt <= new Date()) {
+            await this.expireDue();
+            throw new Error('Payment request has expired');
+        }
+
+        const claimed = await prisma.paymentRequest.updateMany({
+            where: { id, status: 'PENDING' },
+            data: { status: 'PAID', respondedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+            throw new Error('Payment request was already answered');
+        }
+
+        const urgency = options.urgency ?? 'NORMAL';
+        let transaction: Transaction;
+
+        try {
+            transaction = await transactionService.initiateTransfer(
+                payerAccountId,
+                request.requesterAccount.accountNumber,
+                request.amount.toNumber(),
+                urgency,
+                {
+                    idempotency: {
+                        key: `payment-request:${id}`,
+                        requestHash: hashPayload({
+                            toAccountNumber: request.requesterAccount.accountNumber,
+                            amount: request.amount.toNumber(),
+                            urgency,
+                        }),
+                    },
+                    maxFee: options.maxFee,
+                    remark: request.note ?? undefined,
+                }
+            );
+        } catch (error) {
+            await prisma.paymentRequest.update({
+                where: { id },
+                data: { status: 'PENDING', respondedAt: null },
+            });
+            throw error;
+        }
+
+        const updated = await prisma.paymentRequest.update({
+            where: { id },
+            data: { transactionId: transaction.id },
+        });
+
+        return { request: updated, transaction };
+    }
+
+    /**
+     * Payer refuses a request
+     */
+    async decline(id: string, payerAccountId: string): Promise<PaymentRequest> {
+        return this.close(id, { payerAccountId }, 'DECLINED');
+    }
+
+    /**
+     * Requester withdraws a request
+     */
+    async cancel(id: string, requesterAccountId: string): Promise<PaymentRequest> {
+        return this.close(id, { requesterAccountId }, 'CANCELLED');
+    }
+
+    private async close(
+        id: string,
+        party: { payerAccountId: string } | { requesterAccountId: string },
+        status: 'DECLINED' | 'CANCELLED'
+    ): Promise<PaymentRequest> {
+        const request = await prisma.paymentRequest.findFirst({ where: { id, ...party } });
+
+        if (!request) {
+            throw new Error('Payment request not found');
+        }
+
+        try {
+            // Only a still-PENDING request is closed, so an accept racing this one wins or loses cleanly
+            return await prisma.paymentRequest.update({
+                where: { id, status: 'PENDING' },
+                data: { status, respondedAt: new Date() },
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+                const current = await prisma.paymentRequest.findUnique({ where: { id } });
+                throw new Error(`Payment request is ${(current ?? request).status.toLowerCase()}`);
+            }
+            throw error;
+        }
+    }
+}
+
+export const paymentRequestService = new PaymentRequestService();
@@ -0,0 +1,332 @@
+import prisma from '../config/database';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PayoutBatch, PayoutBatchStatus, TxStatus, Urgency } from '@prisma/client';
+import { schemas } from '../middleware/validation';
+import { transactionService } from './transaction.service';
+import { feeService } from './fee.service';
+import { overdraftService } from './overdraft.service';
+import { limitService } from './limit.service';
+import { beneficiaryService } from './beneficiary.service';
+import { queueControlService, Admission } from './queue-control.service';
+import { hashPayload } from '../utils/helpers';
+
+export interface PayoutRowReport {
+    rowNumber: number;
+    fromAccountNumber: string;
+    toAccountNumber: string;
+    amount: number | null;
+    urgency: Urgency;
+    reference?: string;
+    fee: Decimal | null;
+    valid: boolean;
+    errors: string[];
+}
+
+export interface PayoutValidation {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    totalAmount: Decimal;
+    rows: PayoutRowReport[];
+}
+
+export interface PayoutProgress {
+    enqueued: number;
+    pending: number;
+    completed: number;
+    failed: number;
+    rejected: number;
+    invalid: number;
+    completedAmount: Decimal;
+}
+
+const TERMINAL: TxStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+export class PayoutService {
+    /**
+     * Validate every row with the same checks initiateTransfer applies, without moving money
+     * Balances and daily limits are checked cumulatively per paying account (all its earlier valid rows)
+     */
+    async validate(rawRows: unknown[]): Promise<PayoutValidation> {
+        const parsed = rawRows.map(raw => schemas.payoutRow.safeParse(raw));
+
+        const accountNumbers = new Set<string>();
+        for (const result of parsed) {
+            if (result.success) {
+                accountNumbers.add(result.data.fromAccountNumber);
+                accountNumbers.add(result.data.toAccountNumber);
+            }
+        }
+
+        const accounts = await prisma.account.findMany({
+            where: { accountNumber: { in: [...accountNumbers] } },
+        });
+        const byNumber = new Map(accounts.map(a => [a.accountNumber, a]));
+
+        // Committed by earlier valid rows of this batch, per paying account:
+        // funds = amount + fee (balance check), amount / count (daily limits)
+        const committed = new Map<string, { funds: Decimal; amount: Decimal; count: number }>();
+        const admissions = new Map<Urgency, Admission>();
+
+        const rows: PayoutRowReport[] = [];
+        let totalAmount = new Decimal(0);
+
+        for (let i = 0; i < parsed.length; i++) {
+            const result = parsed[i];
+            const raw = (rawRows[i] ?? {}) as Record<string, unknown>;
+
+            if (!result.success) {
+                rows.push({
+                    rowNumber: i + 1,
+                    fromAccountNumber: String(raw.fromAccountNumber ?? ''),
+                    toAccountNumber: String(raw.toAccountNumber ?? ''),
+                    amount: null,
+                    urgency: 'NORMAL',
+                    fee: null,
+                    valid: false,
+                    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+                });
+                continue;
+            }
+
+            const row = result.data;
+            const errors: string[] = [];
+            const from = byNumber.get(row.fromAccountNumber);
+            const to = byNumber.get(row.toAccountNumber);
+            let fee: Decimal | null = null;
+
+            if (!from) {
+                errors.push('From account not found');
+            } else if (!from.isActive) {
+                errors.push('From account is inactive');
+            }
+
+            if (!to) {
+                errors.push('To account not found');
+            } else if (!to.isActive) {
+                errors.push('To account is inactive');
+            }
+
+            if (from && to && from.id === to.id) {
+                errors.push('Cannot transfer to same account');
+            }
+
+            if (from && to && errors.length === 0) {
+                const quote = await feeService.quote(from, row.amount, row.urgency);
+                const earlier = committed.get(from.id) ?? { funds: new Decimal(0), amount: new Decimal(0), count: 0 };
+                fee = quote.fee;
+
+                try {
+                    overdraftService.assertCanDebit(
+                        { ...from, reservedAmount: from.reservedAmount.plus(earlier.funds) },
+                        quote.totalDebit
+                    );
+                } catch (error: any) {
+                    errors.push(earlier.funds.greaterThan(0)
+                        ? `${error.message} (₹${earlier.funds} already committed by earlier rows)`
+                        : error.message);
+                }
+
+                try {
+                    await limitService.assertWithinLimits(from.id, row.amount, earlier);
+                } catch (error: any) {
+                    errors.push(earlier.count > 0
+                        ? `${error.message} (counting ${earlier.count} earlier row(s) from this account)`
+                        : error.message);
+                }
+
+                try {
+                    await beneficiaryService.checkTransfer(from.id, to.id, row.amount);
+                } catch (error: any) {
+                    errors.push(error.message);
+                }
+
+                if (!admissions.has(row.urgency)) {
+                    admissions.set(row.urgency, await queueControlService.admit(row.urgency));
+                }
+                const admission = admissions.get(row.urgency)!;
+                if (!admission.accept) {
+                    errors.push(admission.error!);
+                }
+
+                if (errors.length === 0) {
+                    committed.set(from.id, {
+                        funds: earlier.funds.plus(quote.totalDebit),
+                        amount: earlier.amount.plus(row.amount),
+                        count: earlier.count + 1,
+                    });
+                }
+            }
+
+            if (errors.length === 0) {
+                totalAmount = totalAmount.plus(row.amount);
+            }
+
+            rows.push({
+                rowNumber: i + 1,
+                fromAccountNumber: row.fromAccountNumber,
+                toAccountNumber: row.toAccountNumber,
+                amount: row.amount,
+                urgency: row.urgency,
+                reference: row.reference,
+                fee,
+                valid: errors.length === 0,
+                errors,
+            });
+        }
+
+        const validRows = rows.filter(r => r.valid).length;
+
+        return {
+            totalRows: rows.length,
+            validRows,
+            invalidRows: rows.length - validRows,
+            totalAmount,
+            rows,
+        };
+    }
+
+    /**
+     * Record a validated batch and enqueue a transfer for every valid row
+     * Rows refused by initiateTransfer (e.g. state changed since validation) are marked REJECTED
+     * Returns the batch with per-row outcome, already settled if nothing was enqueued
+     */
+    async submit(validation: PayoutValidation, adminId: string) {
+        const batch = await prisma.payoutBatch.create({
+            data: {
+                createdById: adminId,
+                totalRows: validation.totalRows,
+                validRows: validation.validRows,
+                totalAmount: validation.totalAmount,
+            },
+        });
+
+        const fromIds = new Map(
+            (await prisma.account.findMany({
+                where: { accountNumber: { in: validation.rows.filter(r => r.valid).map(r => r.fromAccountNumber) } },
+                select: { id: true, accountNumber: true },
+            })).map(a => [a.accountNumber, a.id])
+        );
+
+        for (const row of validation.rows) {
+            const base = {
+                batchId: batch.id,
+                rowNumber: row.rowNumber,
+                fromAccountNumber: row.fromAccountNumber,
+                toAccountNumber: row.toAccountNumber,
+                amount: row.amount ?? 0,
+                urgency: row.urgency,
+                reference: row.reference,
+            };
+
+            if (!row.valid) {
+                await prisma.payoutRow.create({ data: { ...base, status: 'INVALID', errors: row.errors } });
+                continue;
+            }
+
+            try {
+                const transaction = await transactionService.initiateTransfer(
+                    fromIds.get(row.fromAccountNumber)!,
+                    row.toAccountNumber,
+                    row.amount!,
+                    row.urgency,
+                    {
+                        idempotency: {
+                            key: `payout:${batch.id}:${row.rowNumber}`,
+                            requestHash: hashPayload({ toAccountNumber: row.toAccountNumber, amount: row.amount, urgency: row.urgency }),
+                        },
+                        remark: row.reference || undefined,
+                    }
+                );
+
+                await prisma.payoutRow.create({
+                    data: { ...base, status: 'ENQUEUED', errors: [], transactionId: transaction.id },
+                });
+            } catch (error: any) {
+                await prisma.payoutRow.create({ data: { ...base, status: 'REJECTED', errors: [error.message] } });
+            }
+        }
+
+        return this.getBatch(batch.id);
+    }
+
+    /**
+     * Batch with per-row outcome and aggregate progress
+     * Settles the batch status once every enqueued transfer has finished
+     */
+    async getBatch(batchId: string) {
+        const batch = await prisma.payoutBatch.findUnique({
+            where: { id: batchId },
+            include: {
+                rows: {
+                    orderBy: { rowNumber: 'asc' },
+                    include: {
+                        transaction: { select: { id: true, status: true, failureReason: true, completedAt: true } },
+                    },
+                },
+            },
+        });
+
+        if (!batch) {
+            throw new Error('Payout batch not found');
+        }
+
+        const progress: PayoutProgress = {
+            enqueued: 0,
+            pending: 0,
+            completed: 0,
+            failed: 0,
+            rejected: 0,
+            invalid: 0,
+            completedAmount: new Decimal(0),
+        };
+
+        for (const row of batch.rows) {
+            if (row.status === 'INVALID') {
+                progress.invalid++;
+            } else if (row.status === 'REJECTED') {
+                progress.rejected++;
+            } else if (row.transaction) {
+                progress.enqueued++;
+                if (row.transaction.status === 'COMPLETED') {
+                    progress.completed++;
+                    progress.completedAmount = progress.completedAmount.plus(row.amount);
+                } else if (TERMINAL.includes(row.transaction.status)) {
+                    progress.failed++;
+                } else {
+                    progress.pending++;
+                }
+            }
+        }
+
+        if (batch.status === 'PROCESSING' && progress.pending === 0) {
+            let status: PayoutBatchStatus = 'PARTIAL';
+            if (progress.completed === 0) {
+                status = 'FAILED';
+            } else if (progress.completed === batch.totalRows) {
+                status = 'COMPLETED';
+            }
+
+            // Conditional update so concurrent readers settle it once
+            await prisma.payoutBatch.updateMany({
+                where: { id: batch.id, status: 'PROCESSING' },
+                data: { status, completedAt: new Date() },
+            });
+            batch.status = status;
+        }
+
+        return { ...batch, progress };
+    }
+
+    /**
+     * Recent batches (most recent first)
+     */
+    async listBatches(limit = 50): Promise<PayoutBatch[]> {
+        return prisma.payoutBatch.findMany({
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    }
+}
+
+export const payoutService = new PayoutService();
@@ -0,0 +1,213 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Prisma, PriorityPolicy, Tier, Urgency } from '@prisma/client';
+
+export interface PriorityFormula {
+    urgencyWeights: Record<Urgency, number>;
+    tierWeights: Record<Tier, number>;
+    urgencyCoefficient: number;
+    tierCoefficient: number;
+    riskCoefficient: number;
+    agingFactor: number;
+    maxAgeSeconds: number | null;
+    lanesEnabled: boolean;
+    laneWeights: Record<Urgency, number>;
+}
+
+export interface PriorityPolicyConfig extends PriorityFormula {
+    version: number; // 0 = built-in defaults, never published
+    reason: string | null;
+    createdById: string | null;
+    createdAt: Date | null;
+}
+
+// Weight maps may be partial; omitted fields carry over
+export interface PriorityPolicyInput extends Partial<Omit<PriorityFormula, 'urgencyWeights' | 'tierWeights' | 'laneWeights'>> {
+    urgencyWeights?: Partial<Record<Urgency, number>>;
+    tierWeights?: Partial<Record<Tier, number>>;
+    laneWeights?: Partial<Record<Urgency, number>>;
+}
+
+const URGENCIES: Urgency[] = ['NORMAL', 'EMI', 'MEDICAL'];
+
+export class PriorityService {
+    private cached: { policy: PriorityPolicyConfig; loadedAt: number } | null = null;
+
+    /**
+     * Built-in formula from config (used until an admin publishes a version)
+     */
+    defaults(): PriorityPolicyConfig {
+        return {
+            version: 0,
+            urgencyWeights: { ...config.urgencyWeights },
+            tierWeights: { ...config.tierWeights },
+            urgencyCoefficient: config.priority.urgencyCoefficient,
+            tierCoefficient: config.priority.tierCoefficient,
+            riskCoefficient: config.priority.riskCoefficient,
+            agingFactor: config.agingFactor,
+            maxAgeSeconds: config.priority.maxAgeSeconds,
+            lanesEnabled: config.priority.lanesEnabled,
+            laneWeights: { ...config.priority.laneWeights },
+            reason: null,
+            createdById: null,
+            createdAt: null,
+        };
+    }
+
+    /**
+     * Active policy (highest version), cached for a few seconds so other instances pick up changes
+     */
+    async getActive(): Promise<PriorityPolicyConfig> {
+        if (this.cached && Date.now() - this.cached.loadedAt < config.priority.cacheMs) {
+            return this.cached.policy;
+        }
+
+        const latest = await prisma.priorityPolicy.findFirst({ orderBy: { version: 'desc' } });
+        const policy = latest ? this.fromRow(latest) : this.defaults();
+
+        this.cached = { policy, loadedAt: Date.now() };
+        return policy;
+    }
+
+    /**
+     * Published versions, newest first, with the admin who published each
+     */
+    async getHistory(limit: number = 50) {
+        return prisma.priorityPolicy.findMany({
+            orderBy: { version: 'desc' },
+            take: limit,
+            include: {
+                createdBy: { select: { accountNumber: true, fullName: true } },
+            },
+        });
+    }
+
+    /**
+     * Apply overrides to a formula (unspecified fields carry over)
+     */
+    merge(current: PriorityFormula, input: PriorityPolicyInput): PriorityFormula {
+        const next: PriorityFormula = {
+            urgencyWeights: { ...current.urgencyWeights, ...input.urgencyWeights },
+            tierWeights: { ...current.tierWeights, ...input.tierWeights },
+            urgencyCoefficient: input.urgencyCoefficient ?? current.urgencyCoefficient,
+            tierCoefficient: input.tierCoefficient ?? current.tierCoefficient,
+            riskCoefficient: input.riskCoefficient ?? current.riskCoefficient,
+            agingFactor: input.agingFactor ?? current.agingFactor,
+            maxAgeSeconds: input.maxAgeSeconds !== undefined ? input.maxAgeSeconds : current.maxAgeSeconds,
+            lanesEnabled: input.lanesEnabled ?? current.lanesEnabled,
+            laneWeights: { ...current.laneWeights, ...input.laneWeights },
+        };
+
+        // A zero-weight lane would never be served
+        if (URGENCIES.some(urgency => next.laneWeights[urgency] < 1)) {
+            throw new Error('Every lane weight must be at least 1');
+        }
+
+        return next;
+    }
+
+    /**
+     * Publish a new version: unspecified fields carry over from the active policy
+     */
+    async publish(input: PriorityPolicyInput, adminId: string, reason?: string): Promise<PriorityPolicyConfig> {
+        const next = this.merge(await this.getActive(), input);
+
+        let row: PriorityPolicy;
+        try {
+            row = await prisma.$transaction(async (tx) => {
+                const latest = await tx.priorityPolicy.findFirst({
+                    orderBy: { version: 'desc' },
+                    select: { version: true },
+                });
+
+                return tx.priorityPolicy.create({
+                    data: {
+                        ...next,
+                        version: (latest?.version ?? 0) + 1,
+                        reason,
+                        createdById: adminId,
+                    },
+                });
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw new Error('Priority policy was changed concurrently; reload and try again');
+            }
+            throw error;
+        }
+
+        const policy = this.fromRow(row);
+        this.cached = { policy, loadedAt: Date.now() };
+
+        console.log(`⚖️ Priority policy v${policy.version} published by ${adminId}`);
+
+        return policy;
+    }
+
+    /**
+     * Base priority score
+     * Priority = (Urgency * urgencyCoefficient) + (Tier * tierCoefficient) - (Risk * riskCoefficient)
+     */
+    basePriority(policy: PriorityFormula, urgency: Urgency, tier: Tier, riskScore: number): number {
+        return (policy.urgencyWeights[urgency] * policy.urgencyCoefficient)
+            + (policy.tierWeights[tier] * policy.tierCoefficient)
+            - (riskScore * policy.riskCoefficient);
+    }
+
+    /**
+     * Effective priority with aging, capped at maxAgeSeconds of wait
+     * EffectivePriority = BasePriority + (min(WaitSeconds, MaxAge) * AgingFactor)
+     */
+    effectivePriority(policy: PriorityFormula, basePriority: number, createdAt: Date, now: Date = new Date()): number {
+        let waitSeconds = Math.floor((now.getTime() - createdAt.getTime()) / 1000);
+        if (policy.maxAgeSeconds !== null) {
+            waitSeconds = Math.min(waitSeconds, policy.maxAgeSeconds);
+        }
+        return basePriority + (waitSeconds * policy.agingFactor);
+    }
+
+    /**
+     * One weighted round-robin cycle over the lanes (smooth WRR, so heavy lanes are spread out)
+     * e.g. { MEDICAL: 4, EMI: 2, NORMAL: 1 } -> MEDICAL, EMI, MEDICAL, NORMAL, MEDICAL, EMI, MEDICAL
+     */
+    laneSchedule(policy: PriorityFormula): Urgency[] {
+        const weights = policy.laneWeights;
+        const total = URGENCIES.reduce((sum, urgency) => sum + weights[urgency], 0);
+        const current: Record<Urgency, number> = { NORMAL: 0, EMI: 0, MEDICAL: 0 };
+        const schedule: Urgency[] = [];
+
+        for (let slot = 0; slot < total; slot++) {
+            let best: Urgency = URGENCIES[0];
+            for (const urgency of URGENCIES) {
+                current[urgency] += weights[urgency];
+                if (current[urgency] > current[best]) {
+                    best = urgency;
+                }
+            }
+            current[best] -= total;
+            schedule.push(best);
+        }
+
+        return schedule;
+    }
+
+    private fromRow(row: PriorityPolicy): PriorityPolicyConfig {
+        return {
+            version: row.version,
+            urgencyWeights: row.urgencyWeights as Record<Urgency, number>,
+            tierWeights: row.tierWeights as Record<Tier, number>,
+            urgencyCoefficient: row.urgencyCoefficient,
+            tierCoefficient: row.tierCoefficient,
+            riskCoefficient: row.riskCoefficient,
+            agingFactor: row.agingFactor,
+            maxAgeSeconds: row.maxAgeSeconds,
+            lanesEnabled: row.lanesEnabled,
+            laneWeights: row.laneWeights as Record<Urgency, number>,
+            reason: row.reason,
+            createdById: row.createdById,
+            createdAt: row.createdAt,
+        };
+    }
+}
+
+export const priorityService = new PriorityService();
@@ -0,0 +1,189 @@
+import redis, { REDIS_KEYS } from '../config/redis';
+import prisma from '../config/database';
+import { config } from '../config';
+import { TxStatus, Urgency } from '@prisma/client';
+
+/**
+ * RUNNING  - normal processing
+ * PAUSED   - nothing is settled
+ * DRAINING - in-flight RESERVED items are finished, nothing new is accepted or reserved
+ */
+export type QueueMode = 'RUNNING' | 'PAUSED' | 'DRAINING';
+
+export interface QueueControlState {
+    mode: QueueMode;
+    pausedUrgencies: Urgency[]; // Paused individually while the queue itself is RUNNING
+    reason: string | null;
+    updatedBy: string | null;
+    updatedAt: Date | null;
+}
+
+export interface Admission {
+    accept: boolean;
+    holdReason: string | null; // Set when accepted but not settled until resume
+    error?: string;
+}
+
+const URGENCIES: Urgency[] = ['NORMAL', 'EMI', 'MEDICAL'];
+
+/**
+ * A transfer refused only because the queue is paused or draining
+ * Temporary: scheduled and standing transfers wait and try again instead of failing
+ */
+export class QueueControlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QueueControlError';
+    }
+}
+
+/**
+ * Admin pause / resume / drain switches, kept in Redis so every instance sees them
+ */
+export class QueueControlService {
+    /**
+     * Current control state
+     */
+    async getState(): Promise<QueueControlState> {
+        const [data, paused] = await Promise.all([
+            redis.hgetall(REDIS_KEYS.QUEUE_CONTROL),
+            redis.smembers(REDIS_KEYS.PAUSED_URGENCIES),
+        ]);
+
+        return {
+            mode: (data.mode as QueueMode) || 'RUNNING',
+            pausedUrgencies: URGENCIES.filter(urgency => paused.includes(urgency)),
+            reason: data.reason || null,
+            updatedBy: data.updatedBy || null,
+            updatedAt: data.updatedAt ? new Date(data.updatedAt) : null,
+        };
+    }
+
+    /**
+     * State plus how many RESERVED items a drain is still waiting on
+     */
+    async getStatus(): Promise<QueueControlState & { inFlight: number; drained: boolean }> {
+        const state = await this.getState();
+        const inFlight = await prisma.transaction.count({ where: { status: 'RESERVED' } });
+
+        return { ...state, inFlight, drained: state.mode === 'DRAINING' && inFlight === 0 };
+    }
+
+    /**
+     * Pause everything, or only the given urgencies
+     */
+    async pause(adminId: string, reason: string, urgencies?: Urgency[]): Promise<QueueControlState> {
+        if (urgencies && urgencies.length > 0) {
+            await redis.sadd(REDIS_KEYS.PAUSED_URGENCIES, ...urgencies);
+            await this.stamp(adminId, { reason });
+        } else {
+            await this.stamp(adminId, { mode: 'PAUSED', reason });
+        }
+
+        console.log(`⏸️ Settlement paused (${urgencies?.join(', ') || 'all'}) by ${adminId}: ${reason}`);
+
+        return this.getState();
+    }
+
+    /**
+     * Stop accepting and reserving new transfers; finish what is already RESERVED
+     */
+    async drain(adminId: string, reason: string): Promise<QueueControlState> {
+        await this.stamp(adminId, { mode: 'DRAINING', reason });
+
+        console.log(`🚰 Queue draining by ${adminId}: ${reason}`);
+
+        return this.getState();
+    }
+
+    /**
+     * Resume everything (clears per-urgency pauses too), or only the given urgencies
+     * Transfers held under the lifted pause are released
+     * Returns number of held transfers released
+     */
+    async resume(adminId: string, urgencies?: Urgency[]): Promise<{ state: QueueControlState; released: number }> {
+        if (urgencies && urgencies.length > 0) {
+            await redis.srem(REDIS_KEYS.PAUSED_URGENCIES, ...urgencies);
+            await this.stamp(adminId, {});
+        } else {
+            await redis.del(REDIS_KEYS.PAUSED_URGENCIES);
+            await this.stamp(adminId, { mode: 'RUNNING', reason: '' });
+        }
+
+        // Release holds that no longer apply
+        const state = await this.getState();
+        const stillPaused = state.mode === 'RUNNING' ? state.pausedUrgencies : URGENCIES;
+        const released = await prisma.transaction.updateMany({
+            where: { holdReason: { not: null }, urgency: { notIn: stillPaused } },
+            data: { holdReason: null },
+        });
+
+        console.log(`▶️ Settlement resumed (${urgencies?.join(', ') || 'all'}) by ${adminId}`);
+
+        return { state, released: released.count };
+    }
+
+    /**
+     * Whether a new transfer of this urgency may be accepted right now (initiateTransfer)
+     */
+    async admit(urgency: Urgency): Promise<Admission> {
+        const state = await this.getState();
+        const reason = state.reason ? `: ${state.reason}` : '';
+
+        if (state.mode === 'DRAINING') {
+            return {
+                accept: false,
+                holdReason: null,
+                error: `Transfers are not being accepted while the queue is drained${reason}`,
+            };
+        }
+
+        if (!this.isPaused(state, urgency)) {
+            return { accept: true, holdReason: null };
+        }
+
+        if (config.queueControl.whilePaused === 'REJECT') {
+            return {
+                accept: false,
+                holdReason: null,
+                error: `${urgency} transfers are temporarily paused${reason}`,
+            };
+        }
+
+        return { accept: true, holdReason: `Settlement paused${reason}` };
+    }
+
+    /**
+     * Whether a queued transaction may be settled under the current state
+     */
+    canSettle(state: QueueControlState, transaction: { status: TxStatus; urgency: Urgency }): boolean {
+        if (state.mode === 'DRAINING') {
+            return transaction.status === 'RESERVED';
+        }
+        return !this.isPaused(state, transaction.urgency);
+    }
+
+    /**
+     * Urgencies that may currently be settled from the queue (empty while PAUSED or DRAINING)
+     */
+    activeUrgencies(state: QueueControlState): Urgency[] {
+        if (state.mode !== 'RUNNING') {
+            return [];
+        }
+        return URGENCIES.filter(urgency => !state.pausedUrgencies.includes(urgency));
+    }
+
+    isPaused(state: QueueControlState, urgency: Urgency): boolean {
+        return state.mode === 'PAUSED' || state.pausedUrgencies.includes(urgency);
+    }
+
+    private async stamp(adminId: string, changes: { mode?: QueueMode; reason?: string }): Promise<void> {
+        await redis.hset(REDIS_KEYS.QUEUE_CONTROL, {
+            ...changes,
+            updatedBy: adminId,
+            updatedAt: new Date().toISOString(),
+        });
+    }
+}
+
+export const queueControlService = new QueueControlService();
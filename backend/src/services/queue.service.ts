@@ -1,63 +1,184 @@
-import redis, { REDIS_KEYS } from '../config/redis';
-import { config } from '../config';
+import redis, { LANE_URGENCIES, REDIS_KEYS } from '../config/redis';
 import prisma from '../config/database';
-import { Transaction, Urgency, Tier } from '@prisma/client';
+import { priorityService, PriorityPolicyConfig } from './priority.service';
+import { Urgency, Tier, TxStatus } from '@prisma/client';
+
+// Statuses whose transactions sit in the priority queue (or its retry / dead-letter sets)
+const QUEUED_STATUSES: TxStatus[] = ['QUEUED', 'PENDING_MANUAL', 'RESERVED'];
 
 export class QueueService {
     /**
-     * Calculate base priority score
-     * Priority = (Urgency * 2.0) + (Tier * 1.5) - (Risk * 0.5)
+     * Calculate base priority score with the active priority policy
+     * Priority = (Urgency * urgencyCoefficient) + (Tier * tierCoefficient) - (Risk * riskCoefficient)
+     */
+    async calculateBasePriority(urgency: Urgency, tier: Tier, riskScore: number): Promise<number> {
+        const policy = await priorityService.getActive();
+        return priorityService.basePriority(policy, urgency, tier, riskScore);
+    }
+
+    /**
+     * Add transaction to priority queue and its urgency lane (atomically with its metadata hash)
+     * Using negative score so highest priority = lowest score (Redis ZSET)
      */
-    calculateBasePriority(urgency: Urgency, tier: Tier, riskScore: number): number {
-        const urgencyWeight = config.urgencyWeights[urgency];
-        const tierWeight = config.tierWeights[tier];
+    async enqueue(transactionId: string, basePriority: number, createdAt: Date, urgency: Urgency): Promise<void> {
+        const policy = await priorityService.getActive();
+        const effectivePriority = priorityService.effectivePriority(policy, basePriority, createdAt);
+
+        await redis.queueEnqueue(
+            REDIS_KEYS.PRIORITY_QUEUE,
+            REDIS_KEYS.TXN_DATA(transactionId),
+            REDIS_KEYS.PRIORITY_LANE(urgency),
+            transactionId,
+            -effectivePriority,
+            basePriority,
+            createdAt.toISOString(),
+            createdAt.getTime(),
+            urgency
+        );
+    }
 
-        return (urgencyWeight * 2.0) + (tierWeight * 1.5) - (riskScore * 0.5);
+    /**
+     * Remove transaction from queue (and from its lane and the retry / dead-letter sets) in one step
+     */
+    async dequeue(transactionId: string): Promise<void> {
+        await redis.queueDequeue(
+            REDIS_KEYS.PRIORITY_QUEUE,
+            REDIS_KEYS.RETRY_QUEUE,
+            REDIS_KEYS.DEAD_LETTER,
+            REDIS_KEYS.TXN_DATA(transactionId),
+            ...REDIS_KEYS.PRIORITY_LANES,
+            transactionId
+        );
     }
 
     /**
-     * Calculate effective priority with aging
-     * EffectivePriority = BasePriority + (WaitSeconds * AgingFactor)
+     * Park a transaction until its next attempt is due (out of the priority queue meanwhile)
      */
-    calculateEffectivePriority(basePriority: number, createdAt: Date): number {
-        const waitSeconds = Math.floor((Date.now() - createdAt.getTime()) / 1000);
-        return basePriority + (waitSeconds * config.agingFactor);
+    async scheduleRetry(transactionId: string, dueAt: Date): Promise<void> {
+        await redis.queuePark(
+            REDIS_KEYS.PRIORITY_QUEUE,
+            REDIS_KEYS.RETRY_QUEUE,
+            REDIS_KEYS.RETRY_QUEUE,
+            ...REDIS_KEYS.PRIORITY_LANES,
+            transactionId,
+            dueAt.getTime()
+        );
     }
 
     /**
-     * Add transaction to priority queue
-     * Using negative score so highest priority = lowest score (Redis ZSET)
+     * Move retries whose backoff has elapsed back into the priority queue
      */
-    async enqueue(transactionId: string, basePriority: number, createdAt: Date): Promise<void> {
-        const effectivePriority = this.calculateEffectivePriority(basePriority, createdAt);
-        const score = -effectivePriority;
+    async promoteDueRetries(now: Date = new Date()): Promise<void> {
+        const policy = await priorityService.getActive();
+        const due = await redis.zrangebyscore(REDIS_KEYS.RETRY_QUEUE, '-inf', now.getTime());
 
-        await redis.zadd(REDIS_KEYS.PRIORITY_QUEUE, score, transactionId);
+        for (const txId of due) {
+            const promoted = await redis.queuePromote(
+                REDIS_KEYS.RETRY_QUEUE,
+                REDIS_KEYS.PRIORITY_QUEUE,
+                REDIS_KEYS.TXN_DATA(txId),
+                ...REDIS_KEYS.PRIORITY_LANES,
+                txId,
+                now.getTime(),
+                policy.agingFactor,
+                policy.maxAgeSeconds ?? -1,
+                ...LANE_URGENCIES
+            );
+            if (promoted !== -1) {
+                continue;
+            }
 
-        // Cache transaction metadata for quick access
-        await redis.hset(REDIS_KEYS.TXN_DATA(transactionId), {
-            basePriority: basePriority.toString(),
-            createdAt: createdAt.toISOString(),
-        });
+            // Metadata lost (e.g. Redis restart) - fall back to Postgres
+            const tx = await prisma.transaction.findUnique({
+                where: { id: txId },
+                select: { basePriority: true, createdAt: true, urgency: true },
+            });
+
+            await redis.zrem(REDIS_KEYS.RETRY_QUEUE, txId);
+            if (tx) {
+                await this.enqueue(txId, tx.basePriority, tx.createdAt, tx.urgency);
+            }
+        }
     }
 
     /**
-     * Remove transaction from queue
+     * Move a transaction to the dead-letter set (no further automatic attempts)
      */
-    async dequeue(transactionId: string): Promise<void> {
-        await redis.zrem(REDIS_KEYS.PRIORITY_QUEUE, transactionId);
-        await redis.del(REDIS_KEYS.TXN_DATA(transactionId));
+    async moveToDeadLetter(transactionId: string, at: Date = new Date()): Promise<void> {
+        await redis.queuePark(
+            REDIS_KEYS.PRIORITY_QUEUE,
+            REDIS_KEYS.RETRY_QUEUE,
+            REDIS_KEYS.DEAD_LETTER,
+            ...REDIS_KEYS.PRIORITY_LANES,
+            transactionId,
+            at.getTime()
+        );
     }
 
     /**
-     * Get top N transactions from queue with updated priorities
+     * Get top N transactions in the order they will be served (does not move the lane cursor)
+     * By score, or by weighted round-robin over the urgency lanes when lanes are enabled
      */
     async getTop(count: number = 10): Promise<{ id: string; score: number }[]> {
-        const results = await redis.zrange(
-            REDIS_KEYS.PRIORITY_QUEUE,
-            0,
-            count - 1,
-            'WITHSCORES'
+        return this.readTop(count);
+    }
+
+    /**
+     * URGENCIES restricts the result to those lanes (e.g. while other urgencies are paused)
+     */
+    private async readTop(count: number, urgencies?: Urgency[]): Promise<{ id: string; score: number }[]> {
+        const policy = await priorityService.getActive();
+
+        if (policy.lanesEnabled) {
+            const items = await this.laneTop(policy, count, urgencies);
+            return items.map(({ id, score }) => ({ id, score }));
+        }
+
+        if (urgencies) {
+            // Lanes hold the same scores as the global queue, so merging their heads keeps global order
+            const lanes = await Promise.all(urgencies.map(urgency =>
+                redis.zrange(REDIS_KEYS.PRIORITY_LANE(urgency), 0, count - 1, 'WITHSCORES')
+            ));
+            const merged: { id: string; score: number }[] = [];
+            for (const lane of lanes) {
+                for (let i = 0; i < lane.length; i += 2) {
+                    merged.push({ id: lane[i], score: parseFloat(lane[i + 1]) });
+                }
+            }
+            return merged.sort((a, b) => a.score - b.score).slice(0, count);
+        }
+
+        const results = await redis.zrange(REDIS_KEYS.PRIORITY_QUEUE, 0, count - 1, 'WITHSCORES');
+
+        const items: { id: string; score: number }[] = [];
+        for (let i = 0; i < results.length; i += 2) {
+            items.push({
+                id: results[i],
+                score: parseFloat(results[i + 1]),
+            });
+        }
+
+        return items;
+    }
+
+    /**
+     * Next COUNT items in weighted round-robin lane order
+     */
+    private async laneTop(
+        policy: PriorityPolicyConfig,
+        count: number,
+        urgencies?: Urgency[]
+    ): Promise<{ id: string; score: number }[]> {
+        const schedule = this.laneSchedule(policy, urgencies);
+        if (schedule.length === 0) {
+            return [];
+        }
+
+        const results = await redis.queueLaneTop(
+            REDIS_KEYS.LANE_CURSOR,
+            ...REDIS_KEYS.PRIORITY_LANES,
+            schedule.join(','),
+            count
         );
 
         const items: { id: string; score: number }[] = [];
@@ -72,35 +193,113 @@ export class QueueService {
     }
 
     /**
-     * Get highest priority transaction ID
+     * Round-robin schedule as lane positions in the lane scripts' KEYS (cursor is KEYS[1])
+     */
+    private laneSchedule(policy: PriorityPolicyConfig, urgencies?: Urgency[]): number[] {
+        return priorityService.laneSchedule(policy)
+            .filter(lane => !urgencies || urgencies.includes(lane))
+            .map(lane => LANE_URGENCIES.indexOf(lane) + 2);
+    }
+
+    /**
+     * Claim the highest priority transaction that is not locked by another worker
+     * (next in round-robin lane order when lanes are enabled)
+     * The candidates are read first, then one script locks the first free one (and advances the
+     * lane cursor past it), so two claimers never get the same item or slot; the caller must releaseLock() it
+     * EXCLUDE skips ids the caller already passed over; URGENCIES restricts the claim to those lanes
      */
-    async popTop(): Promise<string | null> {
-        const result = await redis.zrange(REDIS_KEYS.PRIORITY_QUEUE, 0, 0);
-        return result[0] || null;
+    async claimTop(
+        ttlMs: number = 30000,
+        scanLimit: number = 50,
+        filter: { exclude?: Set<string>; urgencies?: Urgency[] } = {}
+    ): Promise<string | null> {
+        const policy = await priorityService.getActive();
+        const exclude = filter.exclude ?? new Set<string>();
+        const count = scanLimit + exclude.size;
+
+        const schedule = policy.lanesEnabled ? this.laneSchedule(policy, filter.urgencies) : [];
+        if (policy.lanesEnabled && schedule.length === 0) {
+            return null;
+        }
+
+        const candidates = (await this.readTop(count, filter.urgencies))
+            .map(({ id }) => id)
+            .filter(id => !exclude.has(id));
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        return redis.queueClaimTop(
+            5 + candidates.length,
+            REDIS_KEYS.LANE_CURSOR,
+            ...REDIS_KEYS.PRIORITY_LANES,
+            REDIS_KEYS.PRIORITY_QUEUE,
+            ...candidates.map(id => REDIS_KEYS.TXN_LOCK(id)),
+            schedule.join(','),
+            ttlMs,
+            Date.now(),
+            count,
+            ...candidates
+        );
     }
 
     /**
      * Recalculate and update priorities for all queued transactions
-     * Called periodically by worker to implement aging
+     * Called periodically by worker to implement aging. The members are listed first and re-scored
+     * in one script, which skips any dequeued by finalize() in between rather than re-adding them
      */
     async updateAllPriorities(): Promise<number> {
+        const policy = await priorityService.getActive();
         const members = await redis.zrange(REDIS_KEYS.PRIORITY_QUEUE, 0, -1);
-        let updated = 0;
+        if (members.length === 0) {
+            return 0;
+        }
 
-        for (const txId of members) {
-            const data = await redis.hgetall(REDIS_KEYS.TXN_DATA(txId));
+        return redis.queueReageAll(
+            4 + members.length,
+            REDIS_KEYS.PRIORITY_QUEUE,
+            ...REDIS_KEYS.PRIORITY_LANES,
+            ...members.map(id => REDIS_KEYS.TXN_DATA(id)),
+            Date.now(),
+            policy.agingFactor,
+            policy.maxAgeSeconds ?? -1,
+            ...members
+        );
+    }
 
-            if (data.basePriority && data.createdAt) {
-                const basePriority = parseFloat(data.basePriority);
-                const createdAt = new Date(data.createdAt);
-                const effectivePriority = this.calculateEffectivePriority(basePriority, createdAt);
+    /**
+     * Recompute base priorities of waiting transactions under a newly published policy
+     * Updates Postgres and the Redis metadata, then re-scores the queue
+     * Returns number of transactions re-scored
+     */
+    async rescoreQueued(policy: PriorityPolicyConfig): Promise<number> {
+        const waiting = await prisma.transaction.findMany({
+            where: { status: { in: QUEUED_STATUSES } },
+            select: {
+                id: true,
+                urgency: true,
+                fromAccount: { select: { tier: true, riskScore: true } },
+            },
+        });
 
-                await redis.zadd(REDIS_KEYS.PRIORITY_QUEUE, -effectivePriority, txId);
-                updated++;
-            }
+        for (const tx of waiting) {
+            const basePriority = priorityService.basePriority(
+                policy,
+                tx.urgency,
+                tx.fromAccount.tier,
+                tx.fromAccount.riskScore
+            );
+
+            await prisma.transaction.update({
+                where: { id: tx.id },
+                data: { basePriority },
+            });
+            await redis.queueSetBase(REDIS_KEYS.TXN_DATA(tx.id), basePriority);
         }
 
-        return updated;
+        await this.updateAllPriorities();
+
+        return waiting.length;
     }
 
     /**
@@ -138,12 +337,22 @@ export class QueueService {
     async getStats(): Promise<{
         queueSize: number;
         timelockSize: number;
+        retrySize: number;
+        deadLetterSize: number;
+        policyVersion: number;
+        lanes: { enabled: boolean; sizes: Record<Urgency, number> };
         topItems: { id: string; effectivePriority: number }[];
     }> {
-        const [queueSize, timelockSize] = await Promise.all([
+        const [queueSize, timelockSize, retrySize, deadLetterSize, normal, emi, medical] = await Promise.all([
             redis.zcard(REDIS_KEYS.PRIORITY_QUEUE),
             redis.zcard(REDIS_KEYS.TIMELOCK_HEAP),
+            redis.zcard(REDIS_KEYS.RETRY_QUEUE),
+            redis.zcard(REDIS_KEYS.DEAD_LETTER),
+            redis.zcard(REDIS_KEYS.PRIORITY_LANE('NORMAL')),
+            redis.zcard(REDIS_KEYS.PRIORITY_LANE('EMI')),
+            redis.zcard(REDIS_KEYS.PRIORITY_LANE('MEDICAL')),
         ]);
+        const policy = await priorityService.getActive();
 
         const topRaw = await this.getTop(5);
         const topItems = topRaw.map(item => ({
@@ -151,7 +360,18 @@ export class QueueService {
             effectivePriority: -item.score, // Convert back to positive
         }));
 
-        return { queueSize, timelockSize, topItems };
+        return {
+            queueSize,
+            timelockSize,
+            retrySize,
+            deadLetterSize,
+            policyVersion: policy.version,
+            lanes: {
+                enabled: policy.lanesEnabled,
+                sizes: { NORMAL: normal, EMI: emi, MEDICAL: medical },
+            },
+            topItems,
+        };
     }
 }
 
@@ -0,0 +1,269 @@
+import prisma from '../config/database';
+import { ledgerService, DoubleEntryReport } from './ledger.service';
+import { Decimal } from '@prisma/client/runtime/library';
+import { LedgerEntry, LedgerType, TxStatus } from '@prisma/client';
+
+const TX_BATCH_SIZE = 500;
+
+export interface AccountDiscrepancy {
+    accountId: string;
+    accountNumber: string;
+    storedBalance: Decimal;
+    replayedBalance: Decimal;
+    storedReserved: Decimal;
+    replayedReserved: Decimal;
+    chainBreaks: { entryId: string; expected: Decimal; recorded: Decimal }[];
+}
+
+export interface TransactionDiscrepancy {
+    transactionId: string;
+    status: TxStatus;
+    issue: string;
+}
+
+export interface ReconciliationReport {
+    generatedAt: Date;
+    accountsChecked: number;
+    transactionsChecked: number;
+    accounts: AccountDiscrepancy[];
+    transactions: TransactionDiscrepancy[];
+    doubleEntry: DoubleEntryReport;
+    consistent: boolean;
+}
+
+/**
+ * Signed effect of an entry on Account.balance
+ */
+function balanceDelta(entry: Pick<LedgerEntry, 'type' | 'amount'>): Decimal {
+    if (entry.type === 'CREDIT') return entry.amount;
+    if (entry.type === 'DEBIT') return entry.amount.negated();
+    return new Decimal(0);
+}
+
+export class ReconciliationService {
+    /**
+     * Replay the ledger and compare it with stored balances and transaction statuses
+     */
+    async run(): Promise<ReconciliationReport> {
+        const accounts = await this.checkAccounts();
+        const transactions = await this.checkTransactions();
+        const doubleEntry = await ledgerService.checkInvariants();
+
+        return {
+            generatedAt: new Date(),
+            accountsChecked: accounts.checked,
+            transactionsChecked: transactions.checked,
+            accounts: accounts.discrepancies,
+            transactions: transactions.discrepancies,
+            doubleEntry,
+            consistent:
+                accounts.discrepancies.length === 0 &&
+                transactions.discrepancies.length === 0 &&
+                doubleEntry.balanced,
+        };
+    }
+
+    /**
+     * Per account: replay balance/reservation and verify the balanceAfter chain
+     */
+    private async checkAccounts(): Promise<{ checked: number; discrepancies: AccountDiscrepancy[] }> {
+        const accounts = await prisma.account.findMany({
+            select: { id: true, accountNumber: true, balance: true, reservedAmount: true },
+        });
+
+        const discrepancies: AccountDiscrepancy[] = [];
+
+        for (const account of accounts) {
+            const entries = await prisma.ledgerEntry.findMany({
+                where: { accountId: account.id },
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            });
+
+            // No ledger history: nothing to replay against
+            if (entries.length === 0) {
+                if (!account.reservedAmount.isZero()) {
+                    discrepancies.push({
+                        accountId: account.id,
+                        accountNumber: account.accountNumber,
+                        storedBalance: account.balance,
+                        replayedBalance: account.balance,
+                        storedReserved: account.reservedAmount,
+                        replayedReserved: new Decimal(0),
+                        chainBreaks: [],
+                    });
+                }
+                continue;
+            }
+
+            // Opening balance is implied by the first entry (deposits may predate the ledger)
+            let balance = entries[0].balanceAfter.minus(balanceDelta(entries[0]));
+            let reserved = new Decimal(0);
+            const reservedTxIds = new Set<string | null>();
+            const chainBreaks: AccountDiscrepancy['chainBreaks'] = [];
+
+            for (const entry of entries) {
+                balance = balance.plus(balanceDelta(entry));
+
+                if (!entry.balanceAfter.equals(balance)) {
+                    chainBreaks.push({ entryId: entry.id, expected: balance, recorded: entry.balanceAfter });
+                    // Continue from the recorded value so one break is not reported on every later entry
+                    balance = entry.balanceAfter;
+                }
+
+                if (entry.type === 'RESERVE') {
+                    reserved = reserved.plus(entry.amount);
+                    reservedTxIds.add(entry.transactionId);
+                } else if (entry.type === 'RELEASE') {
+                    reserved = reserved.minus(entry.amount);
+                } else if (entry.type === 'DEBIT' && reservedTxIds.has(entry.transactionId)) {
+                    // finalize() consumes the reservation when it debits
+                    reserved = reserved.minus(entry.amount);
+                }
+            }
+
+            if (!balance.equals(account.balance) || !reserved.equals(account.reservedAmount) || chainBreaks.length > 0) {
+                discrepancies.push({
+                    accountId: account.id,
+                    accountNumber: account.accountNumber,
+                    storedBalance: account.balance,
+                    replayedBalance: balance,
+                    storedReserved: account.reservedAmount,
+                    replayedReserved: reserved,
+                    chainBreaks,
+                });
+            }
+        }
+
+        return { checked: accounts.length, discrepancies };
+    }
+
+    /**
+     * Per transaction: the ledger entries present must match its status
+     */
+    private async checkTransactions(): Promise<{ checked: number; discrepancies: TransactionDiscrepancy[] }> {
+        const discrepancies: TransactionDiscrepancy[] = [];
+        let checked = 0;
+        let cursor: string | undefined;
+
+        while (true) {
+            const batch = await prisma.transaction.findMany({
+                take: TX_BATCH_SIZE,
+                ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+                orderBy: { id: 'asc' },
+                include: {
+                    ledgerEntries: { select: { accountId: true, type: true, amount: true } },
+                },
+            });
+
+            if (batch.length === 0) {
+                break;
+            }
+
+            for (const tx of batch) {
+                checked++;
+                for (const issue of this.transactionIssues(tx)) {
+                    discrepancies.push({ transactionId: tx.id, status: tx.status, issue });
+                }
+            }
+
+            cursor = batch[batch.length - 1].id;
+        }
+
+        return { checked, discrepancies };
+    }
+
+    /**
+     * Rules linking a transaction's status to the ledger entries it should have
+     */
+    private transactionIssues(tx: {
+        status: TxStatus;
+        fromAccountId: string;
+        toAccountId: string;
+        amount: Decimal;
+        feeAmount: Decimal;
+        feeRefunded: Decimal;
+        reversalOfId: string | null;
+        ledgerEntries: { accountId: string; type: LedgerType; amount: Decimal }[];
+    }): string[] {
+        const issues: string[] = [];
+        const find = (type: LedgerType, accountId: string) =>
+            tx.ledgerEntries.filter(e => e.type === type && e.accountId === accountId);
+
+        const reserve = find('RESERVE', tx.fromAccountId);
+        const release = find('RELEASE', tx.fromAccountId);
+        const debit = find('DEBIT', tx.fromAccountId);
+        const credit = find('CREDIT', tx.toAccountId);
+
+        // The fee is reserved with the amount but debited as its own entry
+        const hasFee = tx.feeAmount.greaterThan(0);
+        const totalDebit = tx.amount.plus(tx.feeAmount);
+
+        const expectEntries = (
+            entries: { amount: Decimal }[],
+            label: string,
+            expectedTotal: Decimal = tx.amount,
+            expectedCount = 1
+        ) => {
+            const total = entries.reduce((sum, e) => sum.plus(e.amount), new Decimal(0));
+            if (entries.length === 0) {
+                issues.push(`Missing ${label} entry`);
+            } else if (entries.length > expectedCount) {
+                issues.push(`Duplicate ${label} entries (${entries.length})`);
+            } else if (!total.equals(expectedTotal)) {
+                issues.push(`${label} amount ${total} does not match expected ${expectedTotal}`);
+            }
+        };
+        const expectNone = (entries: unknown[], label: string) => {
+            if (entries.length > 0) {
+                issues.push(`Unexpected ${label} entry`);
+            }
+        };
+
+        switch (tx.status) {
+            case 'CREATED':
+            case 'LOCKED':
+            case 'QUEUED':
+            case 'PENDING_MANUAL':
+                if (tx.ledgerEntries.length > 0) {
+                    issues.push(`${tx.status} transaction has ${tx.ledgerEntries.length} ledger entries`);
+                }
+                break;
+
+            case 'RESERVED':
+                expectEntries(reserve, 'RESERVE', totalDebit);
+                expectNone(release, 'RELEASE');
+                expectNone(debit, 'DEBIT');
+                expectNone(credit, 'CREDIT');
+                break;
+
+            case 'COMPLETED':
+                // Reversals are posted directly without a reservation
+                if (!tx.reversalOfId) {
+                    expectEntries(reserve, 'RESERVE', totalDebit);
+                }
+                expectNone(release, 'RELEASE');
+                expectEntries(debit, 'DEBIT', totalDebit, hasFee ? 2 : 1);
+                // A reversal also credits any refunded fee as its own entry
+                expectEntries(
+                    credit,
+                    'CREDIT',
+                    tx.amount.plus(tx.feeRefunded),
+                    tx.feeRefunded.greaterThan(0) ? 2 : 1
+                );
+                break;
+
+            case 'FAILED':
+            case 'CANCELLED':
+                expectNone(debit, 'DEBIT');
+                expectNone(credit, 'CREDIT');
+                if (reserve.length !== release.length) {
+                    issues.push(`${reserve.length} RESERVE but ${release.length} RELEASE entries (funds still held)`);
+                }
+                break;
+        }
+
+        return issues;
+    }
+}
+
+export const reconciliationService = new ReconciliationService();
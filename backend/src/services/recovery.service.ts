@@ -0,0 +1,204 @@
+import redis, { REDIS_KEYS } from '../config/redis';
+import prisma from '../config/database';
+import { queueService } from './queue.service';
+import { timelockService } from './timelock.service';
+import { TxStatus } from '@prisma/client';
+
+// Statuses that must be present in each Redis sorted set
+const QUEUE_STATUSES: TxStatus[] = ['QUEUED', 'PENDING_MANUAL', 'RESERVED'];
+const TIMELOCK_STATUSES: TxStatus[] = ['LOCKED'];
+
+export interface OrphanedEntry {
+    id: string;
+    status: TxStatus | null; // null = no such transaction in Postgres
+}
+
+export interface QueueRebuildReport {
+    priorityQueue: { expected: number; restored: number; orphaned: OrphanedEntry[]; removed: number };
+    timelockHeap: { expected: number; restored: number; orphaned: OrphanedEntry[]; removed: number };
+    busy: number; // Locked by a worker / admin mid-settlement; left to them
+    rebuiltAt: Date;
+}
+
+export class RecoveryService {
+    /**
+     * Rebuild the priority queue and time-lock heap from the Transaction table
+     * Postgres is the source of truth. Each transaction is handled under its processing lock with
+     * its status re-read, so one finalized meanwhile (by a worker on any instance) is never put
+     * back; locked ones are skipped. Redis entries without a matching pending transaction are
+     * reported as orphaned and removed
+     */
+    async rebuildQueues(): Promise<QueueRebuildReport> {
+        const [queueMembers, heapMembers] = await Promise.all([
+            redis.zrange(REDIS_KEYS.PRIORITY_QUEUE, 0, -1),
+            redis.zrange(REDIS_KEYS.TIMELOCK_HEAP, 0, -1),
+        ]);
+        const inQueue = new Set(queueMembers);
+        const inHeap = new Set(heapMembers);
+
+        const pending = await prisma.transaction.findMany({
+            where: { status: { in: [...QUEUE_STATUSES, ...TIMELOCK_STATUSES] } },
+            select: { id: true, status: true },
+        });
+
+        let queueExpected = 0;
+        let queueRestored = 0;
+        let heapExpected = 0;
+        let heapRestored = 0;
+        let busy = 0;
+        // Where each transaction belongs now (parked ones belong in neither set)
+        const expectedIds = new Map<string, TxStatus>();
+
+        for (const snapshot of pending) {
+            if (!(await queueService.acquireLock(snapshot.id))) {
+                // Its holder keeps Redis in step; do not count it as an orphan either
+                expectedIds.set(snapshot.id, snapshot.status);
+                busy++;
+                continue;
+            }
+
+            try {
+                const tx = await prisma.transaction.findUnique({
+                    where: { id: snapshot.id },
+                    select: {
+                        id: true,
+                        status: true,
+                        basePriority: true,
+                        createdAt: true,
+                        urgency: true,
+                        lockedUntil: true,
+                        nextAttemptAt: true,
+                        deadLetteredAt: true,
+                    },
+                });
+
+                if (!tx) {
+                    continue;
+                }
+
+                if (TIMELOCK_STATUSES.includes(tx.status)) {
+                    heapExpected++;
+                    expectedIds.set(tx.id, tx.status);
+                    if (!inHeap.has(tx.id)) {
+                        // Missing unlock time: release on the next worker tick
+                        await timelockService.restoreLock(tx.id, tx.lockedUntil ?? new Date());
+                        heapRestored++;
+                    }
+                    continue;
+                }
+
+                // Settled or cancelled since the snapshot
+                if (!QUEUE_STATUSES.includes(tx.status)) {
+                    continue;
+                }
+
+                // Always re-enqueue so the hash:txn:* metadata is rewritten too
+                await queueService.enqueue(tx.id, tx.basePriority, tx.createdAt, tx.urgency);
+
+                // Backing off or dead-lettered: keep the metadata but park it outside the queue
+                if (tx.deadLetteredAt) {
+                    await queueService.moveToDeadLetter(tx.id, tx.deadLetteredAt);
+                    continue;
+                }
+                if (tx.nextAttemptAt && tx.nextAttemptAt > new Date()) {
+                    await queueService.scheduleRetry(tx.id, tx.nextAttemptAt);
+                    continue;
+                }
+
+                queueExpected++;
+                expectedIds.set(tx.id, tx.status);
+                if (!inQueue.has(tx.id)) {
+                    queueRestored++;
+                }
+            } finally {
+                await queueService.releaseLock(snapshot.id);
+            }
+        }
+
+        const queueOrphans = await this.findOrphans(queueMembers, expectedIds, QUEUE_STATUSES);
+        const heapOrphans = await this.findOrphans(heapMembers, expectedIds, TIMELOCK_STATUSES);
+
+        return {
+            priorityQueue: {
+                expected: queueExpected,
+                restored: queueRestored,
+                orphaned: queueOrphans,
+                removed: await this.removeOrphans(queueOrphans, QUEUE_STATUSES, id => queueService.dequeue(id)),
+            },
+            timelockHeap: {
+                expected: heapExpected,
+                restored: heapRestored,
+                orphaned: heapOrphans,
+                removed: await this.removeOrphans(heapOrphans, TIMELOCK_STATUSES, async id => {
+                    await redis.zrem(REDIS_KEYS.TIMELOCK_HEAP, id);
+                }),
+            },
+            busy,
+            rebuiltAt: new Date(),
+        };
+    }
+
+    /**
+     * Redis members whose transaction is missing or not in one of the allowed statuses
+     */
+    private async findOrphans(
+        members: string[],
+        expected: Map<string, TxStatus>,
+        allowed: TxStatus[]
+    ): Promise<OrphanedEntry[]> {
+        const suspects = members.filter(id => {
+            const status = expected.get(id);
+            return !status || !allowed.includes(status);
+        });
+
+        if (suspects.length === 0) {
+            return [];
+        }
+
+        const rows = await prisma.transaction.findMany({
+            where: { id: { in: suspects } },
+            select: { id: true, status: true },
+        });
+        const statusById = new Map(rows.map(row => [row.id, row.status]));
+
+        // Parked (or just enqueued) transactions are still pending, not orphans
+        return suspects
+            .map(id => ({ id, status: statusById.get(id) ?? null }))
+            .filter(entry => !entry.status || !allowed.includes(entry.status));
+    }
+
+    /**
+     * Drop orphaned entries, each under its processing lock and only if still not pending
+     * Returns number removed
+     */
+    private async removeOrphans(
+        orphans: OrphanedEntry[],
+        allowed: TxStatus[],
+        remove: (id: string) => Promise<void>
+    ): Promise<number> {
+        let removed = 0;
+
+        for (const { id } of orphans) {
+            if (!(await queueService.acquireLock(id))) {
+                continue;
+            }
+
+            try {
+                const tx = await prisma.transaction.findUnique({
+                    where: { id },
+                    select: { status: true },
+                });
+                if (!tx || !allowed.includes(tx.status)) {
+                    await remove(id);
+                    removed++;
+                }
+            } finally {
+                await queueService.releaseLock(id);
+            }
+        }
+
+        return removed;
+    }
+}
+
+export const recoveryService = new RecoveryService();
@@ -0,0 +1,248 @@
+import prisma from '../config/database';
+import { transactionService } from './transaction.service';
+import { QueueControlError } from './queue-control.service';
+import { hashPayload } from '../utils/helpers';
+import { Decimal } from '@prisma/client/runtime/library';
+import { ScheduledTransfer, Transaction, Urgency } from '@prisma/client';
+
+// A PROCESSING claim older than this is assumed to belong to a crashed worker
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export interface ScheduleResult {
+    schedule: ScheduledTransfer;
+    transaction?: Transaction;
+    error?: string;
+}
+
+export class ScheduleService {
+    /**
+     * Schedule a transfer for a future date/time
+     */
+    async create(
+        fromAccountId: string,
+        data: { toAccountNumber: string; amount: number; urgency: Urgency; scheduledFor: Date; remark?: string }
+    ): Promise<ScheduledTransfer> {
+        await this.validateRecipient(fromAccountId, data.toAccountNumber);
+
+        return prisma.scheduledTransfer.create({
+            data: {
+                fromAccountId,
+                toAccountNumber: data.toAccountNumber,
+                amount: new Decimal(data.amount),
+                urgency: data.urgency,
+                remark: data.remark,
+                scheduledFor: data.scheduledFor,
+            },
+        });
+    }
+
+    /**
+     * List scheduled transfers for an account (upcoming only unless includePast)
+     */
+    async listForAccount(fromAccountId: string, includePast: boolean = false): Promise<ScheduledTransfer[]> {
+        return prisma.scheduledTransfer.findMany({
+            where: {
+                fromAccountId,
+                ...(includePast ? {} : { status: 'SCHEDULED' }),
+            },
+            orderBy: { scheduledFor: 'asc' },
+            take: 100,
+        });
+    }
+
+    /**
+     * Get a scheduled transfer owned by the account
+     */
+    async getForAccount(id: string, fromAccountId: string): Promise<ScheduledTransfer | null> {
+        return prisma.scheduledTransfer.findFirst({
+            where: { id, fromAccountId },
+        });
+    }
+
+    /**
+     * Edit an upcoming scheduled transfer
+     */
+    async update(
+        id: string,
+        fromAccountId: string,
+        data: { toAccountNumber?: string; amount?: number; urgency?: Urgency; scheduledFor?: Date; remark?: string }
+    ): Promise<ScheduledTransfer | null> {
+        const schedule = await this.getForAccount(id, fromAccountId);
+
+        if (!schedule) {
+            return null;
+        }
+
+        if (data.toAccountNumber) {
+            await this.validateRecipient(fromAccountId, data.toAccountNumber);
+        }
+
+        // Conditional update so we never edit an item the worker has already claimed
+        const result = await prisma.scheduledTransfer.updateMany({
+            where: { id, status: 'SCHEDULED' },
+            data: {
+                toAccountNumber: data.toAccountNumber,
+                amount: data.amount !== undefined ? new Decimal(data.amount) : undefined,
+                urgency: data.urgency,
+                remark: data.remark,
+                scheduledFor: data.scheduledFor,
+            },
+        });
+
+        if (result.count === 0) {
+            throw new Error(`Scheduled transfer is ${schedule.status.toLowerCase()} and can no longer be edited`);
+        }
+
+        return prisma.scheduledTransfer.findUnique({ where: { id } });
+    }
+
+    /**
+     * Cancel an upcoming scheduled transfer
+     */
+    async cancel(id: string, fromAccountId: string): Promise<ScheduledTransfer | null> {
+        const schedule = await this.getForAccount(id, fromAccountId);
+
+        if (!schedule) {
+            return null;
+        }
+
+        const result = await prisma.scheduledTransfer.updateMany({
+            where: { id, status: 'SCHEDULED' },
+            data: { status: 'CANCELLED' },
+        });
+
+        if (result.count === 0) {
+            throw new Error(`Scheduled transfer is ${schedule.status.toLowerCase()} and can no longer be cancelled`);
+        }
+
+        return prisma.scheduledTransfer.findUnique({ where: { id } });
+    }
+
+    /**
+     * Materialise all due scheduled transfers through initiateTransfer
+     * Returns one result per schedule processed
+     */
+    async processDue(now: Date = new Date()): Promise<ScheduleResult[]> {
+        const due = await prisma.scheduledTransfer.findMany({
+            where: {
+                OR: [
+                    { status: 'SCHEDULED', scheduledFor: { lte: now } },
+                    { status: 'PROCESSING', updatedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } },
+                ],
+            },
+            orderBy: { scheduledFor: 'asc' },
+            take: 50,
+        });
+
+        const results: ScheduleResult[] = [];
+
+        for (const schedule of due) {
+            // Claim atomically so two workers never execute the same schedule
+            const claimed = await prisma.scheduledTransfer.updateMany({
+                where: { id: schedule.id, status: schedule.status, updatedAt: schedule.updatedAt },
+                data: { status: 'PROCESSING' },
+            });
+
+            if (claimed.count === 0) {
+                continue;
+            }
+
+            const result = await this.execute(schedule);
+            if (result) {
+                results.push(result);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Initiate the transfer for a claimed schedule
+     * Uses the schedule id as idempotency key so a retried claim cannot double-send
+     * Returns null when deferred because the queue is paused or draining
+     */
+    private async execute(schedule: ScheduledTransfer): Promise<ScheduleResult | null> {
+        const amount = schedule.amount.toNumber();
+
+        try {
+            // A previous (crashed) claim may already have created the transaction
+            const idempotencyKey = `schedule:${schedule.id}`;
+            const transaction = await transactionService.findByIdempotencyKey(schedule.fromAccountId, idempotencyKey)
+                ?? await transactionService.initiateTransfer(
+                schedule.fromAccountId,
+                schedule.toAccountNumber,
+                amount,
+                schedule.urgency,
+                {
+                    idempotency: {
+                        key: idempotencyKey,
+                        requestHash: hashPayload({
+                            toAccountNumber: schedule.toAccountNumber,
+                            amount,
+                            urgency: schedule.urgency,
+                        }),
+                    },
+                    remark: schedule.remark ?? undefined,
+                }
+            );
+
+            const updated = await prisma.scheduledTransfer.update({
+                where: { id: schedule.id },
+                data: {
+                    status: 'EXECUTED',
+                    transactionId: transaction.id,
+                    executedAt: new Date(),
+                },
+            });
+
+            console.log(`📅 Scheduled transfer ${schedule.id.slice(0, 8)}... executed`);
+
+            return { schedule: updated, transaction };
+        } catch (error: any) {
+            // Queue paused / draining - hand the schedule back and try again next tick
+            if (error instanceof QueueControlError) {
+                await prisma.scheduledTransfer.update({
+                    where: { id: schedule.id },
+                    data: { status: 'SCHEDULED' },
+                });
+
+                console.log(`📅 Scheduled transfer ${schedule.id.slice(0, 8)}... deferred: ${error.message}`);
+
+                return null;
+            }
+
+            // Insufficient funds, closed recipient etc. - the schedule is not retried
+            const updated = await prisma.scheduledTransfer.update({
+                where: { id: schedule.id },
+                data: {
+                    status: 'FAILED',
+                    failureReason: error.message,
+                    executedAt: new Date(),
+                },
+            });
+
+            console.log(`📅 Scheduled transfer ${schedule.id.slice(0, 8)}... failed: ${error.message}`);
+
+            return { schedule: updated, error: error.message };
+        }
+    }
+
+    /**
+     * Reject unknown or self recipients when scheduling
+     */
+    private async validateRecipient(fromAccountId: string, toAccountNumber: string): Promise<void> {
+        const toAccount = await prisma.account.findUnique({
+            where: { accountNumber: toAccountNumber },
+        });
+
+        if (!toAccount) {
+            throw new Error('Recipient account not found');
+        }
+
+        if (toAccount.id === fromAccountId) {
+            throw new Error('Cannot transfer to same account');
+        }
+    }
+}
+
+export const scheduleService = new ScheduleService();
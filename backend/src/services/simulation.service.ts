@@ -0,0 +1,274 @@
+import prisma from '../config/database';
+import { priorityService, PriorityFormula, PriorityPolicyInput } from './priority.service';
+import { Tier, TxStatus, Urgency } from '@prisma/client';
+
+export interface SyntheticWorkload {
+    count: number;
+    arrivalWindowSeconds: number;  // Arrivals spread uniformly over this window
+    urgencyMix: Record<Urgency, number>; // Relative frequencies
+    tierMix: Record<Tier, number>;
+    maxRiskScore: number;
+    seed: number;                  // Same seed = same workload
+}
+
+export interface SimulationInput {
+    policy?: PriorityPolicyInput;  // Overrides on top of the active policy
+    workload: 'CURRENT' | 'SYNTHETIC';
+    synthetic?: SyntheticWorkload;
+    processingRatePerSecond: number;
+    starvationSeconds: number;     // Waits longer than this count as starved
+    orderingLimit: number;         // How many served items to list
+}
+
+export interface WaitStats {
+    count: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+    starved: number;
+}
+
+export interface ServedItem {
+    position: number;
+    id: string;
+    urgency: Urgency;
+    tier: Tier;
+    basePriority: number;
+    waitSeconds: number;
+}
+
+export interface SimulationRun {
+    ordering: ServedItem[];
+    overall: WaitStats;
+    byUrgency: Record<Urgency, WaitStats>;
+    byTier: Record<Tier, WaitStats>;
+    makespanSeconds: number;
+}
+
+interface SimItem {
+    id: string;
+    urgency: Urgency;
+    tier: Tier;
+    riskScore: number;
+    createdAt: Date;
+}
+
+const URGENCIES: Urgency[] = ['NORMAL', 'EMI', 'MEDICAL'];
+const TIERS: Tier[] = ['BASIC', 'PREMIUM', 'VIP'];
+const WAITING_STATUSES: TxStatus[] = ['QUEUED', 'PENDING_MANUAL', 'RESERVED'];
+
+/**
+ * Deterministic PRNG (mulberry32) so a seed always yields the same workload
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pickWeighted<T extends string>(mix: Record<T, number>, random: () => number): T {
+    const entries = Object.entries(mix) as [T, number][];
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    let roll = random() * total;
+
+    for (const [key, weight] of entries) {
+        roll -= weight;
+        if (roll < 0) {
+            return key;
+        }
+    }
+    return entries[entries.length - 1][0];
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+export class SimulationService {
+    /**
+     * Replay a workload under a hypothetical policy and under the active one, offline
+     * Nothing in Redis or Postgres is changed
+     */
+    async run(input: SimulationInput): Promise<{
+        workload: { source: 'CURRENT' | 'SYNTHETIC'; items: number };
+        activeVersion: number;
+        proposed: { policy: PriorityFormula; result: SimulationRun };
+        baseline: { policy: PriorityFormula; result: SimulationRun };
+    }> {
+        const active = await priorityService.getActive();
+        const proposed = priorityService.merge(active, input.policy ?? {});
+
+        const start = new Date();
+        const items = input.workload === 'CURRENT'
+            ? await this.loadCurrentQueue()
+            : this.generateWorkload(input.synthetic!, start);
+
+        return {
+            workload: { source: input.workload, items: items.length },
+            activeVersion: active.version,
+            proposed: { policy: proposed, result: this.simulate(proposed, items, start, input) },
+            baseline: { policy: active, result: this.simulate(active, items, start, input) },
+        };
+    }
+
+    /**
+     * Transactions currently waiting to be settled (dead-lettered ones are out of the queue)
+     */
+    private async loadCurrentQueue(): Promise<SimItem[]> {
+        const waiting = await prisma.transaction.findMany({
+            where: { status: { in: WAITING_STATUSES }, deadLetteredAt: null },
+            select: {
+                id: true,
+                urgency: true,
+                createdAt: true,
+                fromAccount: { select: { tier: true, riskScore: true } },
+            },
+        });
+
+        return waiting.map(tx => ({
+            id: tx.id,
+            urgency: tx.urgency,
+            tier: tx.fromAccount.tier,
+            riskScore: tx.fromAccount.riskScore,
+            createdAt: tx.createdAt,
+        }));
+    }
+
+    /**
+     * Synthetic arrivals starting at START
+     */
+    private generateWorkload(spec: SyntheticWorkload, start: Date): SimItem[] {
+        const random = seededRandom(spec.seed);
+        const items: SimItem[] = [];
+
+        for (let i = 0; i < spec.count; i++) {
+            items.push({
+                id: `sim-${i + 1}`,
+                urgency: pickWeighted(spec.urgencyMix, random),
+                tier: pickWeighted(spec.tierMix, random),
+                riskScore: Math.floor(random() * (spec.maxRiskScore + 1)),
+                createdAt: new Date(start.getTime() + Math.floor(random() * spec.arrivalWindowSeconds * 1000)),
+            });
+        }
+
+        return items;
+    }
+
+    /**
+     * Serve items one at a time at processingRatePerSecond, choosing like the queue does:
+     * highest effective priority (ties: oldest first), or weighted round-robin over the
+     * urgency lanes when the policy enables them. Aging is evaluated at each pick.
+     */
+    private simulate(policy: PriorityFormula, items: SimItem[], start: Date, input: SimulationInput): SimulationRun {
+        const arrivals = [...items].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const base = new Map(arrivals.map(item => [
+            item.id,
+            priorityService.basePriority(policy, item.urgency, item.tier, item.riskScore),
+        ]));
+        const schedule = priorityService.laneSchedule(policy);
+        const stepMs = 1000 / input.processingRatePerSecond;
+
+        const available: SimItem[] = [];
+        const served: ServedItem[] = [];
+        let nextArrival = 0;
+        let cursor = 0;
+        let clock = start.getTime();
+
+        while (served.length < arrivals.length) {
+            while (nextArrival < arrivals.length && arrivals[nextArrival].createdAt.getTime() <= clock) {
+                available.push(arrivals[nextArrival++]);
+            }
+
+            // Idle until the next arrival
+            if (available.length === 0) {
+                clock = arrivals[nextArrival].createdAt.getTime();
+                continue;
+            }
+
+            const now = new Date(clock);
+            const best = (lane: Urgency | null): number => {
+                let bestIndex = -1;
+                let bestScore = -Infinity;
+                available.forEach((item, index) => {
+                    if (lane && item.urgency !== lane) {
+                        return;
+                    }
+                    const score = priorityService.effectivePriority(policy, base.get(item.id)!, item.createdAt, now);
+                    if (
+                        score > bestScore ||
+                        (score === bestScore && item.createdAt < available[bestIndex].createdAt)
+                    ) {
+                        bestIndex = index;
+                        bestScore = score;
+                    }
+                });
+                return bestIndex;
+            };
+
+            let index = -1;
+            if (policy.lanesEnabled) {
+                // Empty lanes give their slot to the next lane in the cycle
+                for (let tried = 0; tried < schedule.length && index === -1; tried++) {
+                    index = best(schedule[cursor % schedule.length]);
+                    cursor++;
+                }
+            } else {
+                index = best(null);
+            }
+
+            const [item] = available.splice(index, 1);
+            served.push({
+                position: served.length + 1,
+                id: item.id,
+                urgency: item.urgency,
+                tier: item.tier,
+                basePriority: round1(base.get(item.id)!),
+                waitSeconds: round1((clock - item.createdAt.getTime()) / 1000),
+            });
+
+            clock += stepMs;
+        }
+
+        const stats = (subset: ServedItem[]): WaitStats => {
+            const waits = subset.map(item => item.waitSeconds).sort((a, b) => a - b);
+            return {
+                count: waits.length,
+                p50: percentile(waits, 50),
+                p90: percentile(waits, 90),
+                p99: percentile(waits, 99),
+                max: waits.length ? waits[waits.length - 1] : 0,
+                starved: waits.filter(wait => wait > input.starvationSeconds).length,
+            };
+        };
+
+        return {
+            ordering: served.slice(0, input.orderingLimit),
+            overall: stats(served),
+            byUrgency: Object.fromEntries(
+                URGENCIES.map(urgency => [urgency, stats(served.filter(item => item.urgency === urgency))])
+            ) as Record<Urgency, WaitStats>,
+            byTier: Object.fromEntries(
+                TIERS.map(tier => [tier, stats(served.filter(item => item.tier === tier))])
+            ) as Record<Tier, WaitStats>,
+            makespanSeconds: round1((clock - start.getTime()) / 1000),
+        };
+    }
+}
+
+export const simulationService = new SimulationService();
@@ -0,0 +1,247 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Prisma, SlaDailyMetric, Tier, TxStatus, Urgency } from '@prisma/client';
+import { Clock, systemClock, utcDay } from '../utils/clock';
+
+// Statuses still waiting to be settled (time-locked ones are on the clock too)
+const WAITING_STATUSES: TxStatus[] = ['LOCKED', 'QUEUED', 'PENDING_MANUAL', 'RESERVED'];
+
+// Transactions examined per check, so a backlog cannot stall the queue worker
+const CHECK_BATCH_SIZE = 200;
+
+export type SlaState = 'OK' | 'WARNING' | 'BREACHED';
+
+export interface SlaView {
+    targetSeconds: number;
+    deadline: Date;
+    timeToBreachSeconds: number; // Negative once breached
+    state: SlaState;
+}
+
+export interface SlaAlert {
+    id: string;
+    reference: string;
+    urgency: Urgency;
+    tier: Tier;
+    status: TxStatus;
+    deadline: Date;
+    timeToBreachSeconds: number;
+}
+
+interface SlaFields {
+    urgency: Urgency;
+    createdAt: Date;
+    slaDeadline: Date | null;
+    slaWarnAt: Date | null;
+}
+
+const ALERT_SELECT = {
+    id: true,
+    reference: true,
+    urgency: true,
+    status: true,
+    slaDeadline: true,
+    fromAccount: { select: { tier: true } },
+} as const;
+
+export class SlaService {
+    constructor(private readonly clock: Clock = systemClock) {}
+
+    /**
+     * Target settlement time for an urgency / tier
+     */
+    targetSeconds(urgency: Urgency, tier: Tier): number {
+        return config.sla.targetSeconds[urgency][tier];
+    }
+
+    /**
+     * Deadline and warning time for a transaction created at createdAt
+     */
+    deadlines(urgency: Urgency, tier: Tier, createdAt: Date): { slaDeadline: Date; slaWarnAt: Date } {
+        const targetMs = this.targetSeconds(urgency, tier) * 1000;
+
+        return {
+            slaDeadline: new Date(createdAt.getTime() + targetMs),
+            slaWarnAt: new Date(createdAt.getTime() + Math.floor(targetMs * config.sla.warningFraction)),
+        };
+    }
+
+    /**
+     * SLA position of a waiting transaction (rows created before SLAs existed fall back to config)
+     */
+    view(transaction: SlaFields, tier: Tier, now: Date = this.clock.now()): SlaView {
+        const computed = this.deadlines(transaction.urgency, tier, transaction.createdAt);
+        const deadline = transaction.slaDeadline ?? computed.slaDeadline;
+        const warnAt = transaction.slaWarnAt ?? computed.slaWarnAt;
+
+        return {
+            targetSeconds: this.targetSeconds(transaction.urgency, tier),
+            deadline,
+            timeToBreachSeconds: Math.floor((deadline.getTime() - now.getTime()) / 1000),
+            state: now >= deadline ? 'BREACHED' : now >= warnAt ? 'WARNING' : 'OK',
+        };
+    }
+
+    /**
+     * Raise warnings and breaches that are due (queue worker tick)
+     * Each transaction is claimed with a conditional update, so an alert fires once even
+     * if several instances check at the same time
+     */
+    async check(): Promise<{ warnings: SlaAlert[]; breaches: SlaAlert[] }> {
+        const now = this.clock.now();
+
+        await this.backfillDeadlines();
+
+        const dueWarnings = await prisma.transaction.findMany({
+            where: {
+                status: { in: WAITING_STATUSES },
+                slaWarnedAt: null,
+                slaWarnAt: { lte: now },
+                slaDeadline: { gt: now },
+            },
+            select: ALERT_SELECT,
+            orderBy: { slaDeadline: 'asc' },
+            take: CHECK_BATCH_SIZE,
+        });
+
+        const warnings: SlaAlert[] = [];
+        for (const tx of dueWarnings) {
+            const claimed = await prisma.transaction.updateMany({
+                where: { id: tx.id, slaWarnedAt: null },
+                data: { slaWarnedAt: now },
+            });
+            if (claimed.count === 1) {
+                warnings.push(this.toAlert(tx, now));
+            }
+        }
+
+        const dueBreaches = await prisma.transaction.findMany({
+            where: {
+                status: { in: WAITING_STATUSES },
+                slaBreachedAt: null,
+                slaDeadline: { lte: now },
+            },
+            select: ALERT_SELECT,
+            orderBy: { slaDeadline: 'asc' },
+            take: CHECK_BATCH_SIZE,
+        });
+
+        const breaches: SlaAlert[] = [];
+        for (const tx of dueBreaches) {
+            const claimed = await prisma.transaction.updateMany({
+                where: { id: tx.id, slaBreachedAt: null },
+                data: { slaBreachedAt: now },
+            });
+            if (claimed.count === 1) {
+                breaches.push(this.toAlert(tx, now));
+                await this.bumpMetric(prisma, utcDay(now), tx.urgency, tx.fromAccount.tier, { breaches: { increment: 1 } });
+            }
+        }
+
+        return { warnings, breaches };
+    }
+
+    /**
+     * Count a completed transfer against its SLA (called inside finalize's DB transaction)
+     */
+    async recordSettlement(
+        db: Prisma.TransactionClient,
+        transaction: SlaFields,
+        tier: Tier,
+        completedAt: Date
+    ): Promise<void> {
+        const { deadline } = this.view(transaction, tier, completedAt);
+        const waitSeconds = Math.max(0, Math.round((completedAt.getTime() - transaction.createdAt.getTime()) / 1000));
+        const late = completedAt > deadline;
+        const date = utcDay(completedAt);
+
+        await this.bumpMetric(db, date, transaction.urgency, tier, {
+            settled: { increment: 1 },
+            settledWithinSla: { increment: late ? 0 : 1 },
+            settledLate: { increment: late ? 1 : 0 },
+            totalWaitSeconds: { increment: waitSeconds },
+        });
+
+        await db.slaDailyMetric.updateMany({
+            where: { date, urgency: transaction.urgency, tier, maxWaitSeconds: { lt: waitSeconds } },
+            data: { maxWaitSeconds: waitSeconds },
+        });
+    }
+
+    /**
+     * Daily SLA metrics, with within-SLA rate and average wait derived
+     */
+    async getMetrics(from?: Date, to?: Date): Promise<(SlaDailyMetric & { withinSlaRate: number | null; avgWaitSeconds: number | null })[]> {
+        const rows = await prisma.slaDailyMetric.findMany({
+            where: {
+                date: {
+                    ...(from && { gte: utcDay(from) }),
+                    ...(to && { lte: utcDay(to) }),
+                },
+            },
+            orderBy: [{ date: 'desc' }, { urgency: 'asc' }, { tier: 'asc' }],
+        });
+
+        return rows.map(row => ({
+            ...row,
+            withinSlaRate: row.settled > 0 ? Math.round((row.settledWithinSla / row.settled) * 1000) / 1000 : null,
+            avgWaitSeconds: row.settled > 0 ? Math.round(row.totalWaitSeconds / row.settled) : null,
+        }));
+    }
+
+    /**
+     * Stamp deadlines on waiting transactions created before SLAs existed
+     */
+    private async backfillDeadlines(): Promise<void> {
+        const missing = await prisma.transaction.findMany({
+            where: { status: { in: WAITING_STATUSES }, slaDeadline: null },
+            select: { id: true, urgency: true, createdAt: true, fromAccount: { select: { tier: true } } },
+            take: CHECK_BATCH_SIZE,
+        });
+
+        for (const tx of missing) {
+            await prisma.transaction.update({
+                where: { id: tx.id },
+                data: this.deadlines(tx.urgency, tx.fromAccount.tier, tx.createdAt),
+            });
+        }
+    }
+
+    private async bumpMetric(
+        db: Prisma.TransactionClient,
+        date: Date,
+        urgency: Urgency,
+        tier: Tier,
+        increments: Prisma.SlaDailyMetricUpdateInput
+    ): Promise<void> {
+        // Create-side values: each { increment: n } becomes n
+        const initial = Object.fromEntries(
+            Object.entries(increments).map(([field, op]) => [field, (op as { increment: number }).increment])
+        );
+
+        await db.slaDailyMetric.upsert({
+            where: { date_urgency_tier: { date, urgency, tier } },
+            create: { date, urgency, tier, ...initial },
+            update: increments,
+        });
+    }
+
+    private toAlert(
+        tx: { id: string; reference: string; urgency: Urgency; status: TxStatus; slaDeadline: Date | null; fromAccount: { tier: Tier } },
+        now: Date
+    ): SlaAlert {
+        const deadline = tx.slaDeadline!;
+
+        return {
+            id: tx.id,
+            reference: tx.reference,
+            urgency: tx.urgency,
+            tier: tx.fromAccount.tier,
+            status: tx.status,
+            deadline,
+            timeToBreachSeconds: Math.floor((deadline.getTime() - now.getTime()) / 1000),
+        };
+    }
+}
+
+export const slaService = new SlaService();
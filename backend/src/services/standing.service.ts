@@ -0,0 +1,291 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { transactionService } from './transaction.service';
+import { QueueControlError } from './queue-control.service';
+import { hashPayload } from '../utils/helpers';
+import { nextCronOccurrence, nextOccurrence } from '../utils/schedule';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Frequency, StandingInstruction, StandingInstructionRun, Transaction } from '@prisma/client';
+
+// A claim older than this is assumed to belong to a crashed worker
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+export interface InstalmentOutcome {
+    instruction: StandingInstruction;
+    run: StandingInstructionRun;
+    transaction?: Transaction;
+    willRetry: boolean;
+}
+
+export class StandingInstructionService {
+    /**
+     * Create a recurring EMI standing instruction
+     */
+    async create(
+        fromAccountId: string,
+        data: {
+            toAccountNumber: string;
+            amount: number;
+            remark?: string;
+            frequency: Frequency;
+            cronExpression?: string;
+            startAt: Date;
+            endDate?: Date;
+            maxInstalments?: number;
+            maxRetries?: number;
+        }
+    ): Promise<StandingInstruction> {
+        const toAccount = await prisma.account.findUnique({
+            where: { accountNumber: data.toAccountNumber },
+        });
+
+        if (!toAccount) {
+            throw new Error('Recipient account not found');
+        }
+
+        if (toAccount.id === fromAccountId) {
+            throw new Error('Cannot transfer to same account');
+        }
+
+        // CRON schedules start at the first matching time at or after startAt
+        const firstRun = data.frequency === 'CRON'
+            ? nextCronOccurrence(data.cronExpression!, new Date(data.startAt.getTime() - 60 * 1000))
+            : data.startAt;
+
+        if (!firstRun || (data.endDate && firstRun > data.endDate)) {
+            throw new Error('Schedule has no instalments before the end date');
+        }
+
+        return prisma.standingInstruction.create({
+            data: {
+                fromAccountId,
+                toAccountNumber: data.toAccountNumber,
+                amount: new Decimal(data.amount),
+                remark: data.remark,
+                frequency: data.frequency,
+                cronExpression: data.frequency === 'CRON' ? data.cronExpression : null,
+                startAt: data.startAt,
+                endDate: data.endDate,
+                maxInstalments: data.maxInstalments,
+                maxRetries: data.maxRetries ?? config.standingInstructions.maxRetries,
+                nextRunAt: firstRun,
+            },
+        });
+    }
+
+    /**
+     * List standing instructions for an account
+     */
+    async listForAccount(fromAccountId: string): Promise<StandingInstruction[]> {
+        return prisma.standingInstruction.findMany({
+            where: { fromAccountId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Get a standing instruction with its instalment history
+     */
+    async getForAccount(id: string, fromAccountId: string) {
+        return prisma.standingInstruction.findFirst({
+            where: { id, fromAccountId },
+            include: {
+                runs: { orderBy: { createdAt: 'desc' }, take: 50 },
+            },
+        });
+    }
+
+    /**
+     * Cancel an active standing instruction
+     */
+    async cancel(id: string, fromAccountId: string): Promise<StandingInstruction | null> {
+        const instruction = await prisma.standingInstruction.findFirst({
+            where: { id, fromAccountId },
+        });
+
+        if (!instruction) {
+            return null;
+        }
+
+        if (instruction.status !== 'ACTIVE') {
+            throw new Error(`Standing instruction is already ${instruction.status.toLowerCase()}`);
+        }
+
+        return prisma.standingInstruction.update({
+            where: { id },
+            data: { status: 'CANCELLED', nextRunAt: null, retryAt: null },
+        });
+    }
+
+    /**
+     * Run every instalment (or retry) that is due
+     */
+    async processDue(now: Date = new Date()): Promise<InstalmentOutcome[]> {
+        const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS);
+
+        const due = await prisma.standingInstruction.findMany({
+            where: {
+                status: 'ACTIVE',
+                OR: [
+                    { retryAt: null, nextRunAt: { lte: now } },
+                    { retryAt: { lte: now } },
+                ],
+                AND: [
+                    { OR: [{ claimedAt: null }, { claimedAt: { lt: staleBefore } }] },
+                ],
+            },
+            orderBy: { nextRunAt: 'asc' },
+            take: 50,
+        });
+
+        const outcomes: InstalmentOutcome[] = [];
+
+        for (const instruction of due) {
+            // Claim atomically so two workers never run the same instalment
+            const claimed = await prisma.standingInstruction.updateMany({
+                where: { id: instruction.id, claimedAt: instruction.claimedAt },
+                data: { claimedAt: now },
+            });
+
+            if (claimed.count === 0) {
+                continue;
+            }
+
+            const outcome = await this.runInstalment(instruction, now);
+            if (outcome) {
+                outcomes.push(outcome);
+            }
+        }
+
+        return outcomes;
+    }
+
+    /**
+     * Create the EMI transfer for the current instalment
+     * Insufficient balance is retried up to maxRetries; other errors fail the instalment
+     * Returns null when deferred because the queue is paused or draining (no attempt is used up)
+     */
+    private async runInstalment(instruction: StandingInstruction, now: Date): Promise<InstalmentOutcome | null> {
+        const instalment = instruction.instalmentsPaid + instruction.instalmentsFailed + 1;
+        const attempt = instruction.retryCount + 1;
+        const amount = instruction.amount.toNumber();
+        const idempotencyKey = `standing:${instruction.id}:${instalment}`;
+
+        try {
+            const transaction = await transactionService.findByIdempotencyKey(instruction.fromAccountId, idempotencyKey)
+                ?? await transactionService.initiateTransfer(
+                    instruction.fromAccountId,
+                    instruction.toAccountNumber,
+                    amount,
+                    'EMI',
+                    {
+                        idempotency: {
+                            key: idempotencyKey,
+                            requestHash: hashPayload({
+                                toAccountNumber: instruction.toAccountNumber,
+                                amount,
+                                urgency: 'EMI',
+                            }),
+                        },
+                        remark: instruction.remark ?? undefined,
+                    }
+                );
+
+            const run = await prisma.standingInstructionRun.create({
+                data: {
+                    instructionId: instruction.id,
+                    instalment,
+                    attempt,
+                    status: 'SUCCEEDED',
+                    transactionId: transaction.id,
+                },
+            });
+
+            const updated = await prisma.standingInstruction.update({
+                where: { id: instruction.id },
+                data: {
+                    instalmentsPaid: { increment: 1 },
+                    ...this.advance(instruction, instalment),
+                },
+            });
+
+            console.log(`🔁 Standing instruction ${instruction.id.slice(0, 8)}... instalment ${instalment} paid`);
+
+            return { instruction: updated, run, transaction, willRetry: false };
+        } catch (error: any) {
+            // Queue paused / draining - release the claim and try again next tick
+            if (error instanceof QueueControlError) {
+                await prisma.standingInstruction.update({
+                    where: { id: instruction.id },
+                    data: { claimedAt: null },
+                });
+
+                console.log(`🔁 Standing instruction ${instruction.id.slice(0, 8)}... instalment ${instalment} deferred: ${error.message}`);
+
+                return null;
+            }
+
+            const insufficient = String(error.message).startsWith('Insufficient balance');
+            const willRetry = insufficient && instruction.retryCount < instruction.maxRetries;
+
+            const run = await prisma.standingInstructionRun.create({
+                data: {
+                    instructionId: instruction.id,
+                    instalment,
+                    attempt,
+                    status: 'FAILED',
+                    failureReason: error.message,
+                },
+            });
+
+            const retryAt = new Date(now.getTime() + config.standingInstructions.retryIntervalMinutes * 60 * 1000);
+
+            const updated = await prisma.standingInstruction.update({
+                where: { id: instruction.id },
+                data: willRetry
+                    ? {
+                        retryCount: { increment: 1 },
+                        retryAt,
+                        claimedAt: null,
+                        lastFailureReason: error.message,
+                    }
+                    : {
+                        instalmentsFailed: { increment: 1 },
+                        lastFailureReason: error.message,
+                        ...this.advance(instruction, instalment),
+                    },
+            });
+
+            console.log(
+                `🔁 Standing instruction ${instruction.id.slice(0, 8)}... instalment ${instalment} ` +
+                `attempt ${attempt} failed: ${error.message}${willRetry ? ' (will retry)' : ''}`
+            );
+
+            return { instruction: updated, run, willRetry };
+        }
+    }
+
+    /**
+     * Move on to the next instalment, completing the instruction when it runs out
+     */
+    private advance(instruction: StandingInstruction, instalmentsDone: number) {
+        const next = instruction.nextRunAt
+            ? nextOccurrence(instruction.frequency, instruction.nextRunAt, instruction.startAt, instruction.cronExpression)
+            : null;
+
+        const exhausted =
+            !next ||
+            (instruction.endDate !== null && next > instruction.endDate) ||
+            (instruction.maxInstalments !== null && instalmentsDone >= instruction.maxInstalments);
+
+        return {
+            retryCount: 0,
+            retryAt: null,
+            claimedAt: null,
+            nextRunAt: exhausted ? null : next,
+            status: exhausted ? 'COMPLETED' as const : 'ACTIVE' as const,
+        };
+    }
+}
+
+export const standingInstructionService = new StandingInstructionService();
@@ -0,0 +1,242 @@
+import prisma from '../config/database';
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { Decimal } from '@prisma/client/runtime/library';
+import { LedgerType } from '@prisma/client';
+
+// Only these entry types move the balance (RESERVE/RELEASE only touch reservedAmount)
+const POSTED_TYPES: LedgerType[] = ['DEBIT', 'CREDIT'];
+
+export interface StatementLine {
+    date: Date;
+    transactionId: string | null;
+    description: string | null;
+    debit: Decimal | null;
+    credit: Decimal | null;
+    balanceAfter: Decimal;
+}
+
+export interface Statement {
+    account: {
+        accountNumber: string;
+        fullName: string;
+        tier: string;
+    };
+    from: Date;
+    to: Date;
+    openingBalance: Decimal;
+    closingBalance: Decimal;
+    totalDebits: Decimal;
+    totalCredits: Decimal;
+    lines: StatementLine[];
+    generatedAt: Date;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or newline
+ */
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export class StatementService {
+    /**
+     * Build a statement for [from, to] from the account's ledger entries
+     */
+    async generate(accountId: string, from: Date, to: Date): Promise<Statement> {
+        const account = await prisma.account.findUnique({
+            where: { id: accountId },
+        });
+
+        if (!account) {
+            throw new Error('Account not found');
+        }
+
+        // Opening balance = current balance minus everything posted since `from`
+        // (does not rely on a ledger row existing for the opening deposit)
+        const sinceFrom = await prisma.ledgerEntry.groupBy({
+            by: ['type'],
+            where: { accountId, type: { in: POSTED_TYPES }, createdAt: { gte: from } },
+            _sum: { amount: true },
+        });
+        const sumOf = (type: LedgerType) =>
+            sinceFrom.find(g => g.type === type)?._sum.amount ?? new Decimal(0);
+        const openingBalance = account.balance.minus(sumOf('CREDIT')).plus(sumOf('DEBIT'));
+
+        const entries = await prisma.ledgerEntry.findMany({
+            where: { accountId, type: { in: POSTED_TYPES }, createdAt: { gte: from, lte: to } },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        let totalDebits = new Decimal(0);
+        let totalCredits = new Decimal(0);
+
+        const lines: StatementLine[] = entries.map(entry => {
+            const isDebit = entry.type === 'DEBIT';
+            if (isDebit) {
+                totalDebits = totalDebits.plus(entry.amount);
+            } else {
+                totalCredits = totalCredits.plus(entry.amount);
+            }
+
+            return {
+                date: entry.createdAt,
+                transactionId: entry.transactionId,
+                description: entry.description,
+                debit: isDebit ? entry.amount : null,
+                credit: isDebit ? null : entry.amount,
+                balanceAfter: entry.balanceAfter,
+            };
+        });
+
+        return {
+            account: {
+                accountNumber: account.accountNumber,
+                fullName: account.fullName,
+                tier: account.tier,
+            },
+            from,
+            to,
+            openingBalance,
+            closingBalance: openingBalance.plus(totalCredits).minus(totalDebits),
+            totalDebits,
+            totalCredits,
+            lines,
+            generatedAt: new Date(),
+        };
+    }
+
+    /**
+     * Render a statement as CSV
+     */
+    toCsv(statement: Statement): string {
+        const rows: string[] = [
+            `Account Number,${statement.account.accountNumber}`,
+            `Account Holder,${csvField(statement.account.fullName)}`,
+            `Period,${statement.from.toISOString()},${statement.to.toISOString()}`,
+            `Opening Balance,${statement.openingBalance.toFixed(2)}`,
+            '',
+            'Date,Transaction ID,Description,Debit,Credit,Balance',
+        ];
+
+        for (const line of statement.lines) {
+            rows.push([
+                line.date.toISOString(),
+                line.transactionId ?? '',
+                csvField(line.description ?? ''),
+                line.debit?.toFixed(2) ?? '',
+                line.credit?.toFixed(2) ?? '',
+                line.balanceAfter.toFixed(2),
+            ].join(','));
+        }
+
+        rows.push(
+            '',
+            `Total Debits,${statement.totalDebits.toFixed(2)}`,
+            `Total Credits,${statement.totalCredits.toFixed(2)}`,
+            `Closing Balance,${statement.closingBalance.toFixed(2)}`
+        );
+
+        return rows.join('\n') + '\n';
+    }
+
+    /**
+     * Render a statement as a PDF document
+     */
+    toPdf(statement: Statement): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ size: 'A4', margin: 40 });
+            const chunks: Buffer[] = [];
+
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+
+            // Built-in fonts have no ₹ glyph, so amounts are printed as "INR"
+            const money = (value: Decimal) => `INR ${value.toFixed(2)}`;
+
+            doc.fontSize(18).text('NEXUS Banking - Account Statement');
+            doc.moveDown(0.5);
+            doc.fontSize(10)
+                .text(`Account Holder: ${statement.account.fullName}`)
+                .text(`Account Number: ${statement.account.accountNumber}`)
+                .text(`Period: ${statement.from.toISOString().slice(0, 10)} to ${statement.to.toISOString().slice(0, 10)}`)
+                .text(`Opening Balance: ${money(statement.openingBalance)}`);
+            doc.moveDown();
+
+            const columns = [
+                { title: 'Date', x: 40, width: 70 },
+                { title: 'Description', x: 110, width: 205 },
+                { title: 'Debit', x: 315, width: 80 },
+                { title: 'Credit', x: 395, width: 80 },
+                { title: 'Balance', x: 475, width: 80 },
+            ];
+
+            const drawRow = (values: string[], bold: boolean = false) => {
+                if (doc.y > doc.page.height - 80) {
+                    doc.addPage();
+                }
+                const y = doc.y;
+                doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+                values.forEach((value, i) => {
+                    doc.text(value, columns[i].x, y, { width: columns[i].width, lineBreak: false, ellipsis: true });
+                });
+                doc.moveDown(0.6);
+            };
+
+            drawRow(columns.map(c => c.title), true);
+
+            for (const line of statement.lines) {
+                drawRow([
+                    line.date.toISOString().slice(0, 10),
+                    line.description ?? '',
+                    line.debit ? line.debit.toFixed(2) : '',
+                    line.credit ? line.credit.toFixed(2) : '',
+                    line.balanceAfter.toFixed(2),
+                ]);
+            }
+
+            if (statement.lines.length === 0) {
+                drawRow(['', 'No transactions in this period', '', '', '']);
+            }
+
+            doc.moveDown();
+            doc.font('Helvetica').fontSize(10)
+                .text(`Total Debits: ${money(statement.totalDebits)}`, 40)
+                .text(`Total Credits: ${money(statement.totalCredits)}`)
+                .text(`Closing Balance: ${money(statement.closingBalance)}`);
+            doc.moveDown();
+            doc.fontSize(7).fillColor('#666666')
+                .text(`Generated ${statement.generatedAt.toISOString()}`);
+
+            doc.end();
+        });
+    }
+
+    /**
+     * Send a statement in the requested format (json, csv or pdf download)
+     */
+    async send(res: Response, statement: Statement, format: 'json' | 'csv' | 'pdf'): Promise<void> {
+        const filename = `statement_${statement.account.accountNumber}_` +
+            `${statement.from.toISOString().slice(0, 10)}_${statement.to.toISOString().slice(0, 10)}`;
+
+        if (format === 'csv') {
+            res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+            res.send(this.toCsv(statement));
+            return;
+        }
+
+        if (format === 'pdf') {
+            const pdf = await this.toPdf(statement);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+            res.send(pdf);
+            return;
+        }
+
+        res.json({ statement });
+    }
+}
+
+export const statementService = new StatementService();
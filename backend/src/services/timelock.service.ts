@@ -3,6 +3,8 @@ import { config } from '../config';
 import prisma from '../config/database';
 import { queueService } from './queue.service';
 
+const UNLOCK_BATCH_SIZE = 100;
+
 export class TimelockService {
     /**
      * Add transaction to time-lock heap
@@ -28,8 +30,18 @@ export class TimelockService {
         return unlockTime;
     }
 
+    /**
+     * Re-insert an already LOCKED transaction into the heap (no DB update)
+     * Used when rebuilding Redis state from Postgres
+     */
+    async restoreLock(transactionId: string, unlockAt: Date): Promise<void> {
+        const score = Math.floor(unlockAt.getTime() / 1000);
+        await redis.zadd(REDIS_KEYS.TIMELOCK_HEAP, score, transactionId);
+    }
+
     /**
      * Get transactions that have been unlocked (unlock time <= now)
+     * Read-only view; processUnlocked() claims them atomically
      */
     async getUnlockedTransactions(): Promise<string[]> {
         const nowSeconds = Math.floor(Date.now() / 1000);
@@ -46,6 +58,7 @@ export class TimelockService {
 
     /**
      * Move unlocked transaction from time-lock heap to priority queue
+     * Expects the caller to have already claimed it from the heap (see processUnlocked)
      */
     async moveToQueue(transactionId: string): Promise<void> {
         // Get transaction details
@@ -59,20 +72,23 @@ export class TimelockService {
             return;
         }
 
-        // Remove from time-lock heap
-        await redis.zrem(REDIS_KEYS.TIMELOCK_HEAP, transactionId);
-
         // Update status to PENDING_MANUAL (awaiting admin action)
-        await prisma.transaction.update({
-            where: { id: transactionId },
+        // Conditional: a stale heap entry (e.g. restored by a rebuild) must not move it twice
+        const { count } = await prisma.transaction.updateMany({
+            where: { id: transactionId, status: 'LOCKED' },
             data: { status: 'PENDING_MANUAL' },
         });
 
+        if (count === 0) {
+            return;
+        }
+
         // Add to priority queue
         await queueService.enqueue(
             transactionId,
             transaction.basePriority,
-            transaction.createdAt
+            transaction.createdAt,
+            transaction.urgency
         );
 
         console.log(`🔓 Transaction ${transactionId.slice(0, 8)}... unlocked and moved to priority queue`);
@@ -80,16 +96,33 @@ export class TimelockService {
 
     /**
      * Process all unlocked transactions
+     * Each batch is popped from the heap by a Lua script, so only one worker moves a given transaction
      * Returns number of transactions moved to queue
      */
     async processUnlocked(): Promise<number> {
-        const unlocked = await this.getUnlockedTransactions();
-
-        for (const txId of unlocked) {
-            await this.moveToQueue(txId);
+        let moved = 0;
+
+        while (true) {
+            const nowSeconds = Math.floor(Date.now() / 1000);
+            const claimed = await redis.timelockUnlockDue(REDIS_KEYS.TIMELOCK_HEAP, nowSeconds, UNLOCK_BATCH_SIZE);
+
+            for (let i = 0; i < claimed.length; i++) {
+                try {
+                    await this.moveToQueue(claimed[i]);
+                    moved++;
+                } catch (error) {
+                    // Put the rest of the batch back so the next tick retries instead of losing them
+                    for (const txId of claimed.slice(i)) {
+                        await this.restoreLock(txId, new Date());
+                    }
+                    throw error;
+                }
+            }
+
+            if (claimed.length < UNLOCK_BATCH_SIZE) {
+                return moved;
+            }
         }
-
-        return unlocked.length;
     }
 
     /**
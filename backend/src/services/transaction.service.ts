@@ -2,19 +2,95 @@ import prisma from '../config/database';
 import { config } from '../config';
 import { queueService } from './queue.service';
 import { timelockService } from './timelock.service';
+import { beneficiaryService } from './beneficiary.service';
+import { limitService } from './limit.service';
+import { ledgerService, GL, debit, credit } from './ledger.service';
+import { feeService } from './fee.service';
+import { overdraftService } from './overdraft.service';
+import { slaService, SlaView } from './sla.service';
+import { queueControlService, QueueControlError } from './queue-control.service';
 import { Decimal } from '@prisma/client/runtime/library';
-import { Transaction, TxStatus, Urgency } from '@prisma/client';
+import { Prisma, Transaction, TxStatus, Urgency } from '@prisma/client';
+import { generateReference } from '../utils/helpers';
+
+export interface IdempotencyOptions {
+    key: string;
+    requestHash: string;
+}
+
+/**
+ * Idempotency-Key reused with a different request payload
+ */
+export class IdempotencyConflictError extends Error {
+    constructor() {
+        super('Idempotency-Key already used with a different request');
+        this.name = 'IdempotencyConflictError';
+    }
+}
+
+export interface TransferOptions {
+    idempotency?: IdempotencyOptions;
+    maxFee?: number;          // Refuse if the quoted fee is higher (customer confirmed a quote)
+    remark?: string;
+}
+
+/**
+ * What to do when the original recipient no longer has the funds being reversed
+ * REJECT - fail the reversal, PARTIAL - reverse only what is available,
+ * FORCE - debit anyway and let the recipient balance go negative
+ */
+export type ShortfallPolicy = 'REJECT' | 'PARTIAL' | 'FORCE';
+
+export interface ReversalOptions {
+    amount?: number;          // Defaults to the full unreversed amount
+    reason: string;
+    shortfallPolicy?: ShortfallPolicy;
+}
+
+const PARTY_SELECT = { accountNumber: true, fullName: true } as const;
+
+/**
+ * Account as shown in ledger descriptions: number and holder name, never the internal id
+ */
+function party(account: { accountNumber: string; fullName: string }): string {
+    return account.fullName ? `${account.accountNumber} (${account.fullName})` : account.accountNumber;
+}
+
+/**
+ * Statement line text: base description plus the reference and customer remark
+ */
+function narrative(base: string, transaction: { reference: string; remark: string | null }): string {
+    return transaction.remark
+        ? `${base} | ${transaction.reference} | ${transaction.remark}`
+        : `${base} | ${transaction.reference}`;
+}
+
+export type SettleResult = 'COMPLETED' | 'FAILED' | 'SKIPPED' | 'RETRYING' | 'DEAD_LETTERED';
+
+export interface TransactionSearch {
+    reference?: string;
+    q?: string;
+    accountNumber?: string;
+    status?: TxStatus;
+    from?: Date;
+    to?: Date;
+    limit: number;
+}
 
 export class TransactionService {
     /**
      * Initiate a new transfer
+     * A request that loses an Idempotency-Key race returns the winner's transaction flagged as replayed
      */
     async initiateTransfer(
         fromAccountId: string,
         toAccountNumber: string,
         amount: number,
-        urgency: Urgency = 'NORMAL'
-    ): Promise<Transaction> {
+        urgency: Urgency = 'NORMAL',
+        options: TransferOptions = {}
+    ): Promise<Transaction & { replayed?: boolean }> {
+        const { idempotency, maxFee, remark } = options;
+
         // Get sender account
         const fromAccount = await prisma.account.findUnique({
             where: { id: fromAccountId },
@@ -37,35 +113,79 @@ export class TransactionService {
             throw new Error('Cannot transfer to same account');
         }
 
-        // Check available balance
-        const availableBalance = fromAccount.balance.minus(fromAccount.reservedAmount);
-        const tierReserve = new Decimal(config.tierReserves[fromAccount.tier] || 0);
+        // Paused / draining queue: refuse, or accept and hold until settlement resumes
+        const admission = await queueControlService.admit(urgency);
+        if (!admission.accept) {
+            throw new QueueControlError(admission.error!);
+        }
 
-        if (availableBalance.minus(tierReserve).lessThan(amount)) {
-            throw new Error(`Insufficient balance. Minimum balance of ₹${tierReserve} must be maintained.`);
+        // Fee is charged on top of the amount
+        const feeQuote = await feeService.quote(fromAccount, amount, urgency);
+
+        // Customer confirmed a quote; refuse if the fee has gone up since
+        if (maxFee !== undefined && feeQuote.fee.greaterThan(maxFee)) {
+            throw new Error(`Fee ₹${feeQuote.fee} exceeds the accepted maximum of ₹${maxFee}`);
         }
 
+        // Check available balance (tier minimum, or the overdraft limit if opted in)
+        overdraftService.assertCanDebit(fromAccount, feeQuote.totalDebit);
+
+        // Per-transaction and daily limits (tier default / admin override / self-limit)
+        await limitService.assertWithinLimits(fromAccount.id, amount);
+
+        // Beneficiary rules: optional saved-payee requirement, and cooling-off for new or unsaved payees
+        const { forceTimelock } = await beneficiaryService.checkTransfer(fromAccount.id, toAccount.id, amount);
+
         // Calculate base priority
-        const basePriority = queueService.calculateBasePriority(
+        const basePriority = await queueService.calculateBasePriority(
             urgency,
             fromAccount.tier,
             fromAccount.riskScore
         );
 
         // Create transaction
-        const transaction = await prisma.transaction.create({
-            data: {
-                fromAccountId: fromAccount.id,
-                toAccountId: toAccount.id,
-                amount: new Decimal(amount),
-                urgency,
-                basePriority,
-                status: 'CREATED',
-            },
-        });
+        const createdAt = new Date();
+        let transaction: Transaction;
+        try {
+            transaction = await prisma.transaction.create({
+                data: {
+                    createdAt,
+                    ...slaService.deadlines(urgency, fromAccount.tier, createdAt),
+                    fromAccountId: fromAccount.id,
+                    toAccountId: toAccount.id,
+                    amount: new Decimal(amount),
+                    urgency,
+                    basePriority,
+                    status: 'CREATED',
+                    reference: generateReference(),
+                    remark,
+                    holdReason: admission.holdReason,
+                    feeAmount: feeQuote.fee,
+                    feeRule: feeQuote.rule,
+                    feeWaiver: feeQuote.waiver,
+                    idempotencyKey: idempotency?.key,
+                    requestHash: idempotency?.requestHash,
+                },
+            });
+        } catch (error) {
+            // A concurrent request with the same key won the race - replay its result
+            if (
+                idempotency &&
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === 'P2002' &&
+                (error.meta?.target as string[] | undefined)?.includes('idempotencyKey')
+            ) {
+                const existing = await this.findByIdempotencyKey(fromAccount.id, idempotency.key);
+                if (existing && existing.requestHash === idempotency.requestHash) {
+                    return { ...existing, replayed: true };
+                }
+                throw new IdempotencyConflictError();
+            }
+            throw error;
+        }
 
-        // Determine if time-lock is needed (amount > threshold)
-        if (amount > config.timelockThreshold) {
+        // Determine if time-lock is needed (amount > threshold or new beneficiary)
+        if (amount > config.timelockThreshold || forceTimelock) {
             await timelockService.lockTransaction(transaction.id);
         } else {
             // Add directly to priority queue
@@ -73,7 +193,7 @@ export class TransactionService {
                 where: { id: transaction.id },
                 data: { status: 'QUEUED' },
             });
-            await queueService.enqueue(transaction.id, basePriority, transaction.createdAt);
+            await queueService.enqueue(transaction.id, basePriority, transaction.createdAt, urgency);
         }
 
         return transaction;
@@ -86,6 +206,7 @@ export class TransactionService {
         return prisma.$transaction(async (tx) => {
             const transaction = await tx.transaction.findUnique({
                 where: { id: transactionId },
+                include: { toAccount: { select: PARTY_SELECT } },
             });
 
             if (!transaction || !['QUEUED', 'PENDING_MANUAL'].includes(transaction.status)) {
@@ -100,16 +221,17 @@ export class TransactionService {
                 return false;
             }
 
-            // Check available balance
-            const availableBalance = fromAccount.balance.minus(fromAccount.reservedAmount);
-            const tierReserve = new Decimal(config.tierReserves[fromAccount.tier] || 0);
+            // Check available balance (amount + fee)
+            const totalDebit = transaction.amount.plus(transaction.feeAmount);
 
-            if (availableBalance.minus(tierReserve).lessThan(transaction.amount)) {
+            try {
+                overdraftService.assertCanDebit(fromAccount, totalDebit);
+            } catch (error: any) {
                 await tx.transaction.update({
                     where: { id: transactionId },
                     data: {
                         status: 'FAILED',
-                        failureReason: 'Insufficient balance (Minimum balance requirement)',
+                        failureReason: error.message,
                     },
                 });
                 return false;
@@ -119,7 +241,7 @@ export class TransactionService {
             await tx.account.update({
                 where: { id: fromAccount.id },
                 data: {
-                    reservedAmount: { increment: transaction.amount },
+                    reservedAmount: { increment: totalDebit },
                 },
             });
 
@@ -129,12 +251,23 @@ export class TransactionService {
                     accountId: fromAccount.id,
                     transactionId,
                     type: 'RESERVE',
-                    amount: transaction.amount,
+                    amount: totalDebit,
                     balanceAfter: fromAccount.balance,
-                    description: `Reserved for transfer to ${transaction.toAccountId}`,
+                    description: narrative(`Reserved for transfer to ${party(transaction.toAccount)}`, transaction),
                 },
             });
 
+            // Double-entry: move the funds from the customer into suspense
+            await ledgerService.postJournal(tx, {
+                kind: 'RESERVE',
+                transactionId,
+                description: `Funds reserved for transfer ${transaction.reference}`,
+                legs: [
+                    debit({ accountId: fromAccount.id }, totalDebit),
+                    credit({ glCode: GL.SUSPENSE }, totalDebit),
+                ],
+            });
+
             // Update transaction status
             await tx.transaction.update({
                 where: { id: transactionId },
@@ -144,7 +277,7 @@ export class TransactionService {
                 },
             });
 
-            console.log(`💰 Reserved ₹${transaction.amount} for transaction ${transactionId.slice(0, 8)}...`);
+            console.log(`💰 Reserved ₹${totalDebit} for transaction ${transactionId.slice(0, 8)}...`);
 
             return true;
         });
@@ -163,12 +296,15 @@ export class TransactionService {
                 return false;
             }
 
-            // Debit from sender
+            const fee = transaction.feeAmount;
+            const totalDebit = transaction.amount.plus(fee);
+
+            // Debit from sender (amount + fee)
             const fromAccount = await tx.account.update({
                 where: { id: transaction.fromAccountId },
                 data: {
-                    balance: { decrement: transaction.amount },
-                    reservedAmount: { decrement: transaction.amount },
+                    balance: { decrement: totalDebit },
+                    reservedAmount: { decrement: totalDebit },
                 },
             });
 
@@ -181,6 +317,8 @@ export class TransactionService {
             });
 
             // Create ledger entries
+            // Fee line is stamped 1ms after the transfer line so statements replay them in order
+            const postedAt = new Date();
             await tx.ledgerEntry.createMany({
                 data: [
                     {
@@ -188,29 +326,67 @@ export class TransactionService {
                         transactionId,
                         type: 'DEBIT',
                         amount: transaction.amount,
-                        balanceAfter: fromAccount.balance,
-                        description: `Transfer to ${transaction.toAccountId}`,
+                        balanceAfter: fromAccount.balance.plus(fee),
+                        description: narrative(`Transfer to ${party(toAccount)}`, transaction),
+                        createdAt: postedAt,
                     },
+                    ...(fee.greaterThan(0) ? [{
+                        accountId: transaction.fromAccountId,
+                        transactionId,
+                        type: 'DEBIT' as const,
+                        amount: fee,
+                        balanceAfter: fromAccount.balance,
+                        description: narrative(`Transfer fee (${transaction.feeRule})`, transaction),
+                        createdAt: new Date(postedAt.getTime() + 1),
+                    }] : []),
                     {
                         accountId: transaction.toAccountId,
                         transactionId,
                         type: 'CREDIT',
                         amount: transaction.amount,
                         balanceAfter: toAccount.balance,
-                        description: `Transfer from ${transaction.fromAccountId}`,
+                        description: narrative(`Transfer from ${party(fromAccount)}`, transaction),
                     },
                 ],
             });
 
+            // Double-entry: settle from suspense to the recipient
+            await ledgerService.postJournal(tx, {
+                kind: 'TRANSFER',
+                transactionId,
+                description: `Transfer ${transaction.reference} settled`,
+                legs: [
+                    debit({ glCode: GL.SUSPENSE }, transaction.amount),
+                    credit({ accountId: transaction.toAccountId }, transaction.amount),
+                ],
+            });
+
+            if (fee.greaterThan(0)) {
+                await ledgerService.postJournal(tx, {
+                    kind: 'FEE',
+                    transactionId,
+                    description: `Transfer fee (${transaction.feeRule}) on ${transaction.reference}`,
+                    legs: [
+                        debit({ glCode: GL.SUSPENSE }, fee),
+                        credit({ glCode: GL.FEE_INCOME }, fee),
+                    ],
+                });
+            }
+
             // Update transaction
+            const completedAt = new Date();
             await tx.transaction.update({
                 where: { id: transactionId },
                 data: {
                     status: 'COMPLETED',
-                    completedAt: new Date(),
+                    completedAt,
+                    deadLetteredAt: null,
+                    nextAttemptAt: null,
                 },
             });
 
+            await slaService.recordSettlement(tx, transaction, fromAccount.tier, completedAt);
+
             // Remove from queue
             await queueService.dequeue(transactionId);
 
@@ -235,10 +411,12 @@ export class TransactionService {
 
             // Only rollback if funds were reserved
             if (transaction.status === 'RESERVED') {
+                const reserved = transaction.amount.plus(transaction.feeAmount);
+
                 const fromAccount = await tx.account.update({
                     where: { id: transaction.fromAccountId },
                     data: {
-                        reservedAmount: { decrement: transaction.amount },
+                        reservedAmount: { decrement: reserved },
                     },
                 });
 
@@ -248,11 +426,22 @@ export class TransactionService {
                         accountId: transaction.fromAccountId,
                         transactionId,
                         type: 'RELEASE',
-                        amount: transaction.amount,
+                        amount: reserved,
                         balanceAfter: fromAccount.balance,
-                        description: `Released: ${reason}`,
+                        description: narrative(`Released: ${reason}`, transaction),
                     },
                 });
+
+                // Double-entry: return the funds from suspense to the customer
+                await ledgerService.postJournal(tx, {
+                    kind: 'RELEASE',
+                    transactionId,
+                    description: `Released ${transaction.reference}: ${reason}`,
+                    legs: [
+                        debit({ glCode: GL.SUSPENSE }, reserved),
+                        credit({ accountId: transaction.fromAccountId }, reserved),
+                    ],
+                });
             }
 
             // Update transaction
@@ -261,6 +450,8 @@ export class TransactionService {
                 data: {
                     status: 'CANCELLED',
                     failureReason: reason,
+                    deadLetteredAt: null,
+                    nextAttemptAt: null,
                 },
             });
 
@@ -273,6 +464,171 @@ export class TransactionService {
         });
     }
 
+    /**
+     * Reverse a COMPLETED transfer (admin action)
+     * Creates a linked compensating transaction from the original recipient back to the sender
+     * and refunds the matching share of the fee from fee income
+     */
+    async reverse(transactionId: string, options: ReversalOptions, authorisedById: string): Promise<Transaction> {
+        const policy = options.shortfallPolicy ?? 'REJECT';
+
+        return prisma.$transaction(async (tx) => {
+            const original = await tx.transaction.findUnique({
+                where: { id: transactionId },
+            });
+
+            if (!original) {
+                throw new Error('Transaction not found');
+            }
+
+            if (original.status !== 'COMPLETED') {
+                throw new Error('Only completed transactions can be reversed');
+            }
+
+            if (original.reversalOfId) {
+                throw new Error('A reversal cannot itself be reversed');
+            }
+
+            const reversible = original.amount.minus(original.reversedAmount);
+            if (reversible.lessThanOrEqualTo(0)) {
+                throw new Error('Transaction has already been fully reversed');
+            }
+
+            let amount = options.amount !== undefined ? new Decimal(options.amount) : reversible;
+            if (amount.greaterThan(reversible)) {
+                throw new Error(`Amount exceeds reversible amount of ₹${reversible}`);
+            }
+
+            // Recipient may already have spent the money
+            const recipient = await tx.account.findUnique({
+                where: { id: original.toAccountId },
+            });
+            if (!recipient) {
+                throw new Error('Recipient account not found');
+            }
+            const recipientAvailable = Decimal.max(recipient.balance.minus(recipient.reservedAmount), 0);
+
+            if (recipientAvailable.lessThan(amount)) {
+                if (policy === 'REJECT') {
+                    throw new Error(
+                        `Recipient has insufficient funds for reversal (₹${recipientAvailable} available)`
+                    );
+                }
+                if (policy === 'PARTIAL') {
+                    if (recipientAvailable.lessThanOrEqualTo(0)) {
+                        throw new Error('Recipient has no available funds to reverse');
+                    }
+                    amount = recipientAvailable;
+                }
+            }
+
+            // Guard against concurrent reversals of the same transaction
+            const claimed = await tx.transaction.updateMany({
+                where: { id: original.id, reversedAmount: original.reversedAmount },
+                data: { reversedAmount: { increment: amount } },
+            });
+
+            if (claimed.count === 0) {
+                throw new Error('Transaction was modified concurrently, please retry');
+            }
+
+            // Fee refunded pro rata; the reversal that completes the principal refunds the remainder
+            const feeReversedUpTo = (reversed: Decimal) => reversed.equals(original.amount)
+                ? original.feeAmount
+                : original.feeAmount.times(reversed).dividedBy(original.amount).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+            const feeRefund = feeReversedUpTo(original.reversedAmount.plus(amount))
+                .minus(feeReversedUpTo(original.reversedAmount));
+
+            const now = new Date();
+            const reversal = await tx.transaction.create({
+                data: {
+                    fromAccountId: original.toAccountId,
+                    toAccountId: original.fromAccountId,
+                    amount,
+                    urgency: original.urgency,
+                    basePriority: 0,
+                    status: 'COMPLETED',
+                    reference: generateReference(now),
+                    remark: `Reversal of ${original.reference}`,
+                    completedAt: now,
+                    reversalOfId: original.id,
+                    reversalReason: options.reason,
+                    feeRefunded: feeRefund,
+                    authorisedById,
+                },
+            });
+
+            const debited = await tx.account.update({
+                where: { id: original.toAccountId },
+                data: { balance: { decrement: amount } },
+            });
+
+            const credited = await tx.account.update({
+                where: { id: original.fromAccountId },
+                data: { balance: { increment: amount.plus(feeRefund) } },
+            });
+
+            // Reversal lines share one timestamp; the fee refund line is 1ms later so statements replay them in order
+            await tx.ledgerEntry.createMany({
+                data: [
+                    {
+                        accountId: original.toAccountId,
+                        transactionId: reversal.id,
+                        type: 'DEBIT',
+                        amount,
+                        balanceAfter: debited.balance,
+                        description: narrative(`Reversal to ${party(credited)}: ${options.reason}`, reversal),
+                        createdAt: now,
+                    },
+                    {
+                        accountId: original.fromAccountId,
+                        transactionId: reversal.id,
+                        type: 'CREDIT',
+                        amount,
+                        balanceAfter: credited.balance.minus(feeRefund),
+                        description: narrative(`Reversal from ${party(debited)}: ${options.reason}`, reversal),
+                        createdAt: now,
+                    },
+                    ...(feeRefund.greaterThan(0) ? [{
+                        accountId: original.fromAccountId,
+                        transactionId: reversal.id,
+                        type: 'CREDIT' as const,
+                        amount: feeRefund,
+                        balanceAfter: credited.balance,
+                        description: narrative(`Fee refund (${original.feeRule})`, reversal),
+                        createdAt: new Date(now.getTime() + 1),
+                    }] : []),
+                ],
+            });
+
+            await ledgerService.postJournal(tx, {
+                kind: 'REVERSAL',
+                transactionId: reversal.id,
+                description: `Reversal of ${original.reference}: ${options.reason}`,
+                legs: [
+                    debit({ accountId: original.toAccountId }, amount),
+                    credit({ accountId: original.fromAccountId }, amount),
+                ],
+            });
+
+            if (feeRefund.greaterThan(0)) {
+                await ledgerService.postJournal(tx, {
+                    kind: 'FEE',
+                    transactionId: reversal.id,
+                    description: `Fee refund (${original.feeRule}) on ${original.reference}`,
+                    legs: [
+                        debit({ glCode: GL.FEE_INCOME }, feeRefund),
+                        credit({ accountId: original.fromAccountId }, feeRefund),
+                    ],
+                });
+            }
+
+            console.log(`↩️ Transaction ${original.id.slice(0, 8)}... reversed ₹${amount} (${policy})`);
+
+            return reversal;
+        });
+    }
+
     /**
      * Get transaction by ID
      */
@@ -290,6 +646,17 @@ export class TransactionService {
         });
     }
 
+    /**
+     * Find a transaction previously created by this sender with the given Idempotency-Key
+     */
+    async findByIdempotencyKey(fromAccountId: string, key: string): Promise<Transaction | null> {
+        return prisma.transaction.findUnique({
+            where: {
+                fromAccountId_idempotencyKey: { fromAccountId, idempotencyKey: key },
+            },
+        });
+    }
+
     /**
      * Get transactions for an account
      */
@@ -311,10 +678,59 @@ export class TransactionService {
     }
 
     /**
-     * Get pending transactions (awaiting manual completion)
+     * Admin search: reference (exact or prefix), free text over reference and remark,
+     * account number on either side, status and creation window
      */
-    async getPending(): Promise<Transaction[]> {
+    async search(filters: TransactionSearch): Promise<Transaction[]> {
+        const where: Prisma.TransactionWhereInput = {};
+
+        if (filters.reference) {
+            where.reference = { startsWith: filters.reference.toUpperCase() };
+        }
+
+        if (filters.q) {
+            where.OR = [
+                { reference: { contains: filters.q, mode: 'insensitive' } },
+                { remark: { contains: filters.q, mode: 'insensitive' } },
+            ];
+        }
+
+        if (filters.accountNumber) {
+            where.AND = [{
+                OR: [
+                    { fromAccount: { accountNumber: filters.accountNumber } },
+                    { toAccount: { accountNumber: filters.accountNumber } },
+                ],
+            }];
+        }
+
+        if (filters.status) {
+            where.status = filters.status;
+        }
+
+        if (filters.from || filters.to) {
+            where.createdAt = {
+                ...(filters.from ? { gte: filters.from } : {}),
+                ...(filters.to ? { lte: filters.to } : {}),
+            };
+        }
+
         return prisma.transaction.findMany({
+            where,
+            include: {
+                fromAccount: { select: PARTY_SELECT },
+                toAccount: { select: PARTY_SELECT },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: filters.limit,
+        });
+    }
+
+    /**
+     * Get pending transactions (awaiting manual completion)
+     */
+    async getPending(): Promise<(Transaction & { sla: SlaView })[]> {
+        const pending = await prisma.transaction.findMany({
             where: {
                 status: { in: ['QUEUED', 'PENDING_MANUAL', 'RESERVED'] },
             },
@@ -327,17 +743,61 @@ export class TransactionService {
                 { createdAt: 'asc' },
             ],
         });
+
+        // SLA-breached items first (most overdue on top), the rest keep priority order
+        const now = new Date();
+        return pending
+            .map(tx => ({ ...tx, sla: slaService.view(tx, tx.fromAccount.tier, now) }))
+            .sort((a, b) => {
+                const aBreached = a.sla.state === 'BREACHED';
+                const bBreached = b.sla.state === 'BREACHED';
+                if (aBreached !== bBreached) {
+                    return aBreached ? -1 : 1;
+                }
+                return aBreached ? a.sla.timeToBreachSeconds - b.sla.timeToBreachSeconds : 0;
+            });
     }
 
     /**
      * Complete a pending transaction (admin action)
+     * Honours the admin queue controls: throws QueueControlError if its urgency is paused or the queue is draining
      */
     async completeManual(transactionId: string): Promise<boolean> {
+        const control = await queueControlService.getState();
+        const pending = await prisma.transaction.findUnique({
+            where: { id: transactionId },
+            select: { status: true, urgency: true },
+        });
+        if (pending && !queueControlService.canSettle(control, pending)) {
+            const reason = control.reason ? `: ${control.reason}` : '';
+            throw new QueueControlError(control.mode === 'DRAINING'
+                ? `Only reserved transfers can be settled while the queue is drained${reason}`
+                : `${pending.urgency} settlement is paused${reason}`);
+        }
+
+        // Avoid racing the auto-settlement worker on the same transaction
+        if (!(await queueService.acquireLock(transactionId))) {
+            return false;
+        }
+
+        try {
+            return await this.completeLocked(transactionId);
+        } finally {
+            await queueService.releaseLock(transactionId);
+        }
+    }
+
+    /**
+     * Reserve (if needed) and finalize a transaction whose processing lock the caller holds
+     */
+    private async completeLocked(transactionId: string): Promise<boolean> {
         const transaction = await prisma.transaction.findUnique({
             where: { id: transactionId },
         });
 
-        if (!transaction) {
+        // Stale queue entry (already settled, cancelled or missing)
+        if (!transaction || ['COMPLETED', 'FAILED', 'CANCELLED'].includes(transaction.status)) {
+            await queueService.dequeue(transactionId);
             return false;
         }
 
@@ -353,14 +813,193 @@ export class TransactionService {
         return this.finalize(transactionId);
     }
 
+    /**
+     * Settle a queued transaction without admin action (auto-settlement worker)
+     * Business failures (e.g. insufficient balance) fail the transaction; transient errors
+     * (e.g. DB errors) are retried with backoff and eventually dead-lettered.
+     * PENDING_MANUAL items are skipped and left in the queue for an admin, as are items locked
+     * by someone else (e.g. an admin completing it) - contention is not a failed attempt
+     */
+    async autoSettle(transactionId: string): Promise<SettleResult> {
+        if (!(await queueService.acquireLock(transactionId))) {
+            return 'SKIPPED';
+        }
+
+        return this.settleLocked(transactionId);
+    }
+
+    /**
+     * autoSettle for a transaction whose processing lock the caller already holds (e.g. from claimTop)
+     * Releases the lock
+     */
+    async settleLocked(transactionId: string): Promise<SettleResult> {
+        try {
+            const transaction = await prisma.transaction.findUnique({
+                where: { id: transactionId },
+            });
+
+            // Stale queue entry (already settled, cancelled or missing)
+            if (!transaction || ['COMPLETED', 'FAILED', 'CANCELLED'].includes(transaction.status)) {
+                await queueService.dequeue(transactionId);
+                return 'SKIPPED';
+            }
+
+            if (transaction.deadLetteredAt) {
+                return 'SKIPPED';
+            }
+
+            // Paused, or draining and this one holds no reserved funds yet
+            if (!queueControlService.canSettle(await queueControlService.getState(), transaction)) {
+                return 'SKIPPED';
+            }
+
+            // RESERVED here means an earlier attempt reserved funds but failed to finalize
+            if (transaction.status !== 'QUEUED' && transaction.status !== 'RESERVED') {
+                return 'SKIPPED';
+            }
+
+            try {
+                if (transaction.status === 'QUEUED') {
+                    const reserved = await this.reserveFunds(transactionId);
+                    if (!reserved) {
+                        await queueService.dequeue(transactionId);
+                        return 'FAILED';
+                    }
+                }
+
+                const completed = await this.finalize(transactionId);
+                return completed ? 'COMPLETED' : 'FAILED';
+            } catch (error: any) {
+                return this.recordTransientFailure(transactionId, error.message ?? String(error));
+            }
+        } finally {
+            await queueService.releaseLock(transactionId);
+        }
+    }
+
+    /**
+     * Count a failed attempt: back off exponentially, or dead-letter after maxAttempts
+     */
+    private async recordTransientFailure(transactionId: string, error: string): Promise<SettleResult> {
+        let transaction: Transaction;
+        try {
+            transaction = await prisma.transaction.update({
+                where: { id: transactionId },
+                data: { processingAttempts: { increment: 1 }, lastError: error },
+            });
+        } catch (updateError) {
+            // Row is gone - nothing left to retry, just drop the stale queue entry
+            if (updateError instanceof Prisma.PrismaClientKnownRequestError && updateError.code === 'P2025') {
+                await queueService.dequeue(transactionId);
+                return 'SKIPPED';
+            }
+            throw updateError;
+        }
+
+        const { maxAttempts, baseDelayMs, maxDelayMs } = config.settlementRetry;
+        const now = new Date();
+
+        if (transaction.processingAttempts >= maxAttempts) {
+            await prisma.transaction.update({
+                where: { id: transactionId },
+                data: { deadLetteredAt: now, nextAttemptAt: null },
+            });
+            await queueService.moveToDeadLetter(transactionId, now);
+
+            console.warn(`☠️ Transaction ${transactionId.slice(0, 8)}... dead-lettered after ${transaction.processingAttempts} attempts: ${error}`);
+            return 'DEAD_LETTERED';
+        }
+
+        const delay = Math.min(baseDelayMs * 2 ** (transaction.processingAttempts - 1), maxDelayMs);
+        const nextAttemptAt = new Date(now.getTime() + delay);
+
+        await prisma.transaction.update({
+            where: { id: transactionId },
+            data: { nextAttemptAt },
+        });
+        await queueService.scheduleRetry(transactionId, nextAttemptAt);
+
+        console.warn(`🔁 Transaction ${transactionId.slice(0, 8)}... attempt ${transaction.processingAttempts} failed, retrying in ${delay}ms: ${error}`);
+        return 'RETRYING';
+    }
+
+    /**
+     * Dead-lettered transactions (oldest first)
+     */
+    async getDeadLetters(): Promise<Transaction[]> {
+        return prisma.transaction.findMany({
+            where: { deadLetteredAt: { not: null } },
+            include: {
+                fromAccount: { select: PARTY_SELECT },
+                toAccount: { select: PARTY_SELECT },
+            },
+            orderBy: { deadLetteredAt: 'asc' },
+        });
+    }
+
+    /**
+     * Give a dead-lettered transaction a fresh set of attempts
+     */
+    async requeueDeadLetter(transactionId: string): Promise<Transaction> {
+        const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+
+        if (!transaction || !transaction.deadLetteredAt) {
+            throw new Error('Transaction is not in the dead-letter queue');
+        }
+
+        const updated = await prisma.transaction.update({
+            where: { id: transactionId },
+            data: { deadLetteredAt: null, nextAttemptAt: null, processingAttempts: 0 },
+        });
+
+        await queueService.dequeue(transactionId);
+        await queueService.enqueue(transactionId, updated.basePriority, updated.createdAt, updated.urgency);
+
+        return updated;
+    }
+
+    /**
+     * Cancel a dead-lettered transaction, releasing any reserved funds
+     */
+    async cancelDeadLetter(transactionId: string, reason: string = 'Cancelled from dead-letter queue'): Promise<boolean> {
+        const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+
+        if (!transaction || !transaction.deadLetteredAt) {
+            throw new Error('Transaction is not in the dead-letter queue');
+        }
+
+        return this.rollback(transactionId, reason);
+    }
+
     /**
      * Process the next highest-priority transaction from the queue
+     * Honours the admin queue controls; blockedReason is set while settlement is paused
      */
-    async processNext(): Promise<{ success: boolean; transactionId?: string }> {
-        // Get the highest priority pending transaction
+    async processNext(): Promise<{ success: boolean; transactionId?: string; blockedReason?: string }> {
+        const control = await queueControlService.getState();
+        if (control.mode === 'PAUSED') {
+            return { success: false, blockedReason: `Settlement is paused${control.reason ? `: ${control.reason}` : ''}` };
+        }
+
+        // Claim the top of the Redis queue and its processing lock in one step
+        // (only when nothing is paused or draining - the claim cannot filter by urgency or status)
+        const unrestricted = control.mode === 'RUNNING' && control.pausedUrgencies.length === 0;
+        const claimed = unrestricted ? await queueService.claimTop() : null;
+        if (claimed) {
+            try {
+                const completed = await this.completeLocked(claimed);
+                return { success: completed, transactionId: claimed };
+            } finally {
+                await queueService.releaseLock(claimed);
+            }
+        }
+
+        // Queue empty, fully locked or restricted - fall back to the highest priority pending row in Postgres
         const nextTx = await prisma.transaction.findFirst({
             where: {
-                status: { in: ['QUEUED', 'PENDING_MANUAL', 'RESERVED'] },
+                status: control.mode === 'DRAINING' ? 'RESERVED' : { in: ['QUEUED', 'PENDING_MANUAL', 'RESERVED'] },
+                ...(control.mode === 'RUNNING' && { urgency: { in: queueControlService.activeUrgencies(control) } }),
+                deadLetteredAt: null,
             },
             orderBy: [
                 { basePriority: 'desc' },
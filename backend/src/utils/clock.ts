@@ -0,0 +1,31 @@
+/**
+ * Source of "now" for date-sensitive services, so they can be driven from a fixed time
+ */
+export interface Clock {
+    now(): Date;
+}
+
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
+
+/**
+ * Midnight UTC of the given instant
+ */
+export function utcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Midnight UTC on the first of the given instant's month
+ */
+export function utcMonth(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * YYYY-MM of the given instant in UTC
+ */
+export function utcPeriod(date: Date): string {
+    return date.toISOString().slice(0, 7);
+}
@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
 
 /**
  * Generate a 12-digit unique account number
@@ -48,6 +49,22 @@ export function generateId(): string {
     return uuidv4();
 }
 
+/**
+ * SHA-256 fingerprint of a request payload (used for idempotency checks)
+ */
+export function hashPayload(payload: unknown): string {
+    return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+/**
+ * Generate a transfer reference number (UTR-style)
+ * Format: NXS + YYMMDD + 10 random uppercase hex characters
+ */
+export function generateReference(date: Date = new Date()): string {
+    const datePart = date.toISOString().slice(2, 10).replace(/-/g, '');
+    return `NXS${datePart}${randomBytes(5).toString('hex').toUpperCase()}`;
+}
+
 /**
  * Mask sensitive data for logging
  */
@@ -83,3 +100,59 @@ export function isValidMobile(mobile: string): boolean {
 export function isValidEmail(email: string): boolean {
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 }
+
+/**
+ * Parse CSV text with a header row into records keyed by (trimmed) header
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+    if (nonEmpty.length === 0) {
+        return [];
+    }
+
+    const headers = nonEmpty[0].map(h => h.trim());
+    return nonEmpty.slice(1).map(values =>
+        Object.fromEntries(headers.map((header, i) => [header, (values[i] ?? '').trim()]))
+    );
+}
@@ -0,0 +1,190 @@
+/**
+ * Recurrence helpers for standing instructions
+ * All calculations use UTC so results do not depend on the server timezone
+ */
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CRON';
+
+interface CronField {
+    values: Set<number>;
+    wildcard: boolean;
+}
+
+interface ParsedCron {
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    dayOfWeek: CronField;
+}
+
+// [min, max] for each of the five cron fields
+const CRON_RANGES: [number, number][] = [
+    [0, 59], // minute
+    [0, 23], // hour
+    [1, 31], // day of month
+    [1, 12], // month
+    [0, 6],  // day of week (0 = Sunday)
+];
+
+// Give up searching after roughly 5 years (e.g. "0 0 31 2 *" never fires)
+const CRON_SEARCH_LIMIT_DAYS = 5 * 366;
+
+/**
+ * Parse one cron field: *, n, a-b, a,b,c and step forms (x/n)
+ */
+function parseCronField(field: string, [min, max]: [number, number]): CronField {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepStr] = part.split('/');
+        const step = stepStr === undefined ? 1 : Number(stepStr);
+
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid cron step: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            [start, end] = range.split('-').map(Number);
+        } else {
+            start = Number(range);
+            end = stepStr === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Invalid cron field: ${part}`);
+        }
+
+        for (let v = start; v <= end; v += step) {
+            values.add(v);
+        }
+    }
+
+    return { values, wildcard: field === '*' };
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCron(expression: string): ParsedCron {
+    const fields = expression.trim().split(/\s+/);
+
+    if (fields.length !== 5) {
+        throw new Error('Cron expression must have 5 fields');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((f, i) => parseCronField(f, CRON_RANGES[i]));
+
+    // Accept 7 as Sunday like most cron implementations
+    if (fields[4].split(',').some(p => p === '7')) {
+        dayOfWeek.values.add(0);
+    }
+
+    return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * Check a cron expression without throwing
+ */
+export function isValidCron(expression: string): boolean {
+    try {
+        parseCron(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Standard cron day matching: if both day fields are restricted, either may match
+ */
+function cronDayMatches(cron: ParsedCron, date: Date): boolean {
+    const domMatch = cron.dayOfMonth.values.has(date.getUTCDate());
+    const dowMatch = cron.dayOfWeek.values.has(date.getUTCDay());
+
+    if (cron.dayOfMonth.wildcard || cron.dayOfWeek.wildcard) {
+        return domMatch && dowMatch;
+    }
+    return domMatch || dowMatch;
+}
+
+/**
+ * Next time strictly after `after` that matches the cron expression
+ */
+export function nextCronOccurrence(expression: string, after: Date): Date | null {
+    const cron = parseCron(expression);
+
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + CRON_SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+
+    while (candidate.getTime() <= limit) {
+        if (!cron.month.values.has(candidate.getUTCMonth() + 1) || !cronDayMatches(cron, candidate)) {
+            // Skip to the start of the next day
+            candidate.setUTCDate(candidate.getUTCDate() + 1);
+            candidate.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+
+        if (!cron.hour.values.has(candidate.getUTCHours())) {
+            candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+
+        if (!cron.minute.values.has(candidate.getUTCMinutes())) {
+            candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+
+        return candidate;
+    }
+
+    return null;
+}
+
+/**
+ * Add whole months, clamping to the anchor day (e.g. Jan 31 -> Feb 28 -> Mar 31)
+ */
+function addMonthsClamped(date: Date, months: number, anchorDay: number): Date {
+    const result = new Date(date.getTime());
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+
+    const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(anchorDay, daysInMonth));
+
+    return result;
+}
+
+/**
+ * Next run time after `previous` for a recurrence
+ * `anchor` is the first run; monthly schedules keep its day of month
+ */
+export function nextOccurrence(
+    frequency: Frequency,
+    previous: Date,
+    anchor: Date,
+    cronExpression?: string | null
+): Date | null {
+    switch (frequency) {
+        case 'DAILY':
+            return new Date(previous.getTime() + 24 * 60 * 60 * 1000);
+        case 'WEEKLY':
+            return new Date(previous.getTime() + 7 * 24 * 60 * 60 * 1000);
+        case 'MONTHLY':
+            return addMonthsClamped(previous, 1, anchor.getUTCDate());
+        case 'CRON':
+            if (!cronExpression) {
+                throw new Error('Cron expression required');
+            }
+            return nextCronOccurrence(cronExpression, previous);
+    }
+}
@@ -1,10 +1,15 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketServer, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type Redis from 'ioredis';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
+import redis from '../config/redis';
 import { JwtPayload } from '../middleware/auth';
 
 let io: SocketServer | null = null;
+let pubClient: Redis | null = null;
+let subClient: Redis | null = null;
 
 /**
  * Initialize WebSocket server
@@ -60,6 +65,43 @@ export function initWebSocket(server: HttpServer): SocketServer {
     return io;
 }
 
+/**
+ * Switch room emits to the Redis adapter so they reach sockets on every instance
+ * Falls back to the default in-process adapter when disabled or Redis pub/sub is unavailable
+ */
+export async function enableRedisAdapter(): Promise<void> {
+    if (!io || !config.websocket.redisAdapter) {
+        console.log('🔌 WebSocket using in-process adapter (single node)');
+        return;
+    }
+
+    const pub = redis.duplicate();
+    const sub = redis.duplicate();
+
+    try {
+        await Promise.all([pub.connect(), sub.connect()]);
+    } catch (error: any) {
+        pub.disconnect();
+        sub.disconnect();
+        console.warn(`⚠️ WebSocket Redis adapter unavailable, using in-process adapter: ${error.message}`);
+        return;
+    }
+
+    pubClient = pub;
+    subClient = sub;
+    io.adapter(createAdapter(pubClient, subClient));
+    console.log('🔌 WebSocket using Redis adapter (cluster-wide emits)');
+}
+
+/**
+ * Close the adapter's pub/sub connections
+ */
+export async function closeRedisAdapter(): Promise<void> {
+    await Promise.all([pubClient?.quit(), subClient?.quit()]);
+    pubClient = null;
+    subClient = null;
+}
+
 /**
  * Get Socket.IO instance
  */
@@ -0,0 +1,74 @@
+import { config } from '../config';
+import { interestService } from '../services/interest.service';
+import { leaderService } from '../services/leader.service';
+import { emitToUser } from '../websocket';
+
+let isRunning = false;
+let isTicking = false;
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Accrue yesterday's interest and settle closed months
+ */
+async function tick(): Promise<void> {
+    if (isTicking || !leaderService.isLeader('interest')) {
+        return;
+    }
+
+    isTicking = true;
+    try {
+        const summary = await interestService.accrue();
+        if (summary.accrued > 0) {
+            console.log(`📈 Accrued interest for ${summary.accrued} account-days (₹${summary.totalAmount.toFixed(2)})`);
+        }
+
+        const settled = await interestService.capitalise();
+        for (const { accountId, period, credited, charged, balanceAfter, overdraftBreached } of settled) {
+            if (credited.greaterThan(0)) {
+                emitToUser(accountId, 'interest:credited', { period, amount: credited, balance: balanceAfter });
+            }
+            if (charged.greaterThan(0)) {
+                emitToUser(accountId, 'overdraft:interest_charged', { period, amount: charged, balance: balanceAfter });
+            }
+            if (overdraftBreached) {
+                emitToUser(accountId, 'overdraft:breached', { balance: balanceAfter });
+            }
+        }
+        if (settled.length > 0) {
+            console.log(`💸 Settled interest on ${settled.length} accounts`);
+        }
+    } catch (error) {
+        console.error('❌ Interest worker error:', error);
+    } finally {
+        isTicking = false;
+    }
+}
+
+/**
+ * Interest worker
+ * Runs once at start (to catch up after downtime) and then on the configured interval; only the interest lease holder acts
+ */
+export async function startInterestWorker(): Promise<void> {
+    if (isRunning) {
+        console.log('⚠️ Interest worker already running');
+        return;
+    }
+
+    isRunning = true;
+    console.log(`📈 Interest worker started (every ${config.interest.intervalMs}ms)`);
+
+    intervalId = setInterval(tick, config.interest.intervalMs);
+    await tick();
+}
+
+/**
+ * Stop the interest worker
+ */
+export function stopInterestWorker(): void {
+    if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Interest worker stopped');
+}
@@ -1,14 +1,33 @@
 import { queueService } from '../services/queue.service';
-import { getIO } from '../websocket';
+import { leaderService } from '../services/leader.service';
+import { recoveryService } from '../services/recovery.service';
+import { slaService } from '../services/sla.service';
+import { getIO, emitToAdmins } from '../websocket';
 
 let isRunning = false;
+let isLeading = false;
 let intervalId: NodeJS.Timeout | null = null;
 
 const AGING_UPDATE_INTERVAL = 5000; // Update priorities every 5 seconds
 
+/**
+ * Restore queue and time-lock entries from Postgres and drop orphans
+ */
+async function rebuildQueues(): Promise<void> {
+    const rebuild = await recoveryService.rebuildQueues();
+    console.log(
+        `♻️ Queues rebuilt: ${rebuild.priorityQueue.restored} queued, ` +
+        `${rebuild.timelockHeap.restored} time-locked restored`
+    );
+    const removed = rebuild.priorityQueue.removed + rebuild.timelockHeap.removed;
+    if (removed > 0) {
+        console.warn(`⚠️ Removed ${removed} Redis queue entries with no matching pending transaction`);
+    }
+}
+
 /**
  * Queue worker that handles priority aging
- * Periodically recalculates effective priorities
+ * Periodically recalculates effective priorities and raises SLA alerts; only the instance holding the queue lease acts
  */
 export async function startQueueWorker(): Promise<void> {
     if (isRunning) {
@@ -20,7 +39,21 @@ export async function startQueueWorker(): Promise<void> {
     console.log('📊 Queue worker started (aging update every 5s)');
 
     intervalId = setInterval(async () => {
+        if (!leaderService.isLeader('queue')) {
+            isLeading = false;
+            return;
+        }
+
         try {
+            // New leader: rebuild Redis queues from Postgres (recovers from a flushed/restarted Redis)
+            if (!isLeading) {
+                await rebuildQueues();
+                isLeading = true;
+            }
+
+            // Retries whose backoff has elapsed rejoin the queue before re-scoring
+            await queueService.promoteDueRetries();
+
             const updated = await queueService.updateAllPriorities();
 
             if (updated > 0) {
@@ -31,6 +64,18 @@ export async function startQueueWorker(): Promise<void> {
                     io.emit('queue:stats', stats);
                 }
             }
+
+            // SLA deadlines: warn ahead of time, alert on breach (each raised once)
+            const { warnings, breaches } = await slaService.check();
+            for (const alert of warnings) {
+                emitToAdmins('queue:sla_warning', alert);
+            }
+            for (const alert of breaches) {
+                emitToAdmins('queue:sla_breach', alert);
+            }
+            if (breaches.length > 0) {
+                console.warn(`⏰ ${breaches.length} transaction(s) breached their settlement SLA`);
+            }
         } catch (error) {
             console.error('❌ Queue worker error:', error);
         }
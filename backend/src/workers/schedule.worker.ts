@@ -0,0 +1,68 @@
+import { scheduleService } from '../services/schedule.service';
+import { leaderService } from '../services/leader.service';
+import { emitToAdmins, emitToUser } from '../websocket';
+
+let isRunning = false;
+let isTicking = false;
+let intervalId: NodeJS.Timeout | null = null;
+
+const SCHEDULE_POLL_INTERVAL = 10000; // Check for due schedules every 10 seconds
+
+/**
+ * Scheduled transfer worker
+ * Materialises future-dated transfers once they fall due; only the schedule lease holder acts
+ */
+export async function startScheduleWorker(): Promise<void> {
+    if (isRunning) {
+        console.log('⚠️ Schedule worker already running');
+        return;
+    }
+
+    isRunning = true;
+    console.log('📅 Schedule worker started (polling every 10s)');
+
+    intervalId = setInterval(async () => {
+        if (isTicking || !leaderService.isLeader('schedule')) {
+            return;
+        }
+
+        isTicking = true;
+        try {
+            const results = await scheduleService.processDue();
+
+            for (const { schedule, transaction, error } of results) {
+                emitToUser(schedule.fromAccountId, 'schedule:status', {
+                    id: schedule.id,
+                    status: schedule.status,
+                    transactionId: schedule.transactionId,
+                    reason: error,
+                });
+
+                if (transaction) {
+                    emitToAdmins('transaction:new', {
+                        id: transaction.id,
+                        amount: transaction.amount,
+                        status: transaction.status,
+                        urgency: transaction.urgency,
+                    });
+                }
+            }
+        } catch (error) {
+            console.error('❌ Schedule worker error:', error);
+        } finally {
+            isTicking = false;
+        }
+    }, SCHEDULE_POLL_INTERVAL);
+}
+
+/**
+ * Stop the schedule worker
+ */
+export function stopScheduleWorker(): void {
+    if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Schedule worker stopped');
+}
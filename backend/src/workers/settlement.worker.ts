@@ -0,0 +1,155 @@
+import { config } from '../config';
+import prisma from '../config/database';
+import { leaderService } from '../services/leader.service';
+import { queueService } from '../services/queue.service';
+import { queueControlService } from '../services/queue-control.service';
+import { transactionService, SettleResult } from '../services/transaction.service';
+import { emitToAdmins, emitToUser } from '../websocket';
+
+let isRunning = false;
+let isTicking = false;
+let intervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Tell both parties (and the dashboard) what happened, like the admin complete / process-next endpoints
+ */
+async function notify(transactionId: string, result: SettleResult): Promise<void> {
+    if (result === 'DEAD_LETTERED') {
+        emitToAdmins('transaction:dead_lettered', { id: transactionId });
+        return;
+    }
+
+    const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+    });
+
+    if (!transaction) {
+        return;
+    }
+
+    emitToUser(transaction.fromAccountId, 'transaction:status', {
+        id: transaction.id,
+        status: transaction.status,
+        reason: transaction.failureReason ?? undefined,
+    });
+
+    if (result === 'COMPLETED') {
+        emitToUser(transaction.toAccountId, 'transaction:status', {
+            id: transaction.id,
+            status: 'COMPLETED',
+        });
+    }
+}
+
+/**
+ * Settle up to batchSize transactions, within what the admin queue controls allow:
+ * nothing while paused, only in-flight RESERVED items while draining,
+ * otherwise the queue minus any paused urgencies
+ * Items are claimed one at a time; ones that cannot be settled automatically (PENDING_MANUAL,
+ * dead-lettered) are passed over, so they never crowd QUEUED transfers out of the batch
+ * Returns number of transactions settled (completed or failed)
+ */
+async function settleBatch(): Promise<number> {
+    const { batchSize } = config.autoSettlement;
+    const control = await queueControlService.getState();
+    let settled = 0;
+
+    const record = async (transactionId: string, result: SettleResult): Promise<void> => {
+        if (result === 'COMPLETED' || result === 'FAILED') {
+            settled++;
+        }
+        await notify(transactionId, result);
+    };
+
+    if (control.mode === 'DRAINING') {
+        const reserved = await prisma.transaction.findMany({
+            where: { status: 'RESERVED', deadLetteredAt: null },
+            orderBy: [{ basePriority: 'desc' }, { createdAt: 'asc' }],
+            take: batchSize,
+            select: { id: true },
+        });
+
+        for (const { id } of reserved) {
+            const result = await transactionService.autoSettle(id);
+            if (result !== 'SKIPPED' && result !== 'RETRYING') {
+                await record(id, result);
+            }
+        }
+    } else if (control.mode === 'RUNNING') {
+        const filter = {
+            exclude: new Set<string>(),
+            urgencies: control.pausedUrgencies.length > 0 ? queueControlService.activeUrgencies(control) : undefined,
+        };
+
+        let attempted = 0;
+        while (attempted < batchSize) {
+            const id = await queueService.claimTop(30000, 50, filter);
+            if (!id) {
+                break;
+            }
+
+            const result = await transactionService.settleLocked(id);
+            if (result === 'SKIPPED') {
+                filter.exclude.add(id);
+                continue;
+            }
+
+            attempted++;
+            if (result !== 'RETRYING') {
+                await record(id, result);
+            }
+        }
+    }
+
+    if (settled > 0) {
+        emitToAdmins('queue:update', { reason: 'auto_settlement' });
+    }
+
+    return settled;
+}
+
+/**
+ * Auto-settlement worker
+ * Claims QUEUED transactions from the priority queue and settles them without admin action; only the settlement lease holder acts
+ */
+export async function startSettlementWorker(): Promise<void> {
+    if (isRunning) {
+        console.log('⚠️ Settlement worker already running');
+        return;
+    }
+
+    isRunning = true;
+    console.log(`⚙️ Settlement worker started (every ${config.autoSettlement.intervalMs}ms)`);
+
+    intervalId = setInterval(async () => {
+        // Skip tick if the previous batch is still settling
+        if (isTicking || !leaderService.isLeader('settlement')) {
+            return;
+        }
+
+        isTicking = true;
+        try {
+            const settled = await settleBatch();
+
+            if (settled > 0) {
+                console.log(`⚙️ Auto-settled ${settled} transaction(s)`);
+            }
+        } catch (error) {
+            console.error('❌ Settlement worker error:', error);
+        } finally {
+            isTicking = false;
+        }
+    }, config.autoSettlement.intervalMs);
+}
+
+/**
+ * Stop the settlement worker
+ */
+export function stopSettlementWorker(): void {
+    if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Settlement worker stopped');
+}
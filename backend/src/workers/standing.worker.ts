@@ -0,0 +1,72 @@
+import { standingInstructionService } from '../services/standing.service';
+import { leaderService } from '../services/leader.service';
+import { emitToAdmins, emitToUser } from '../websocket';
+
+let isRunning = false;
+let isTicking = false;
+let intervalId: NodeJS.Timeout | null = null;
+
+const STANDING_POLL_INTERVAL = 30000; // Check for due instalments every 30 seconds
+
+/**
+ * Standing instruction worker
+ * Creates EMI transfers for recurring instructions and retries on insufficient balance; only the standing lease holder acts
+ */
+export async function startStandingInstructionWorker(): Promise<void> {
+    if (isRunning) {
+        console.log('⚠️ Standing instruction worker already running');
+        return;
+    }
+
+    isRunning = true;
+    console.log('🔁 Standing instruction worker started (polling every 30s)');
+
+    intervalId = setInterval(async () => {
+        if (isTicking || !leaderService.isLeader('standing')) {
+            return;
+        }
+
+        isTicking = true;
+        try {
+            const outcomes = await standingInstructionService.processDue();
+
+            for (const { instruction, run, transaction, willRetry } of outcomes) {
+                if (transaction) {
+                    emitToAdmins('transaction:new', {
+                        id: transaction.id,
+                        amount: transaction.amount,
+                        status: transaction.status,
+                        urgency: transaction.urgency,
+                    });
+                    continue;
+                }
+
+                // Tell the payer their EMI did not go through
+                emitToUser(instruction.fromAccountId, 'standing:instalment_failed', {
+                    instructionId: instruction.id,
+                    instalment: run.instalment,
+                    attempt: run.attempt,
+                    reason: run.failureReason,
+                    willRetry,
+                    retryAt: instruction.retryAt,
+                });
+            }
+        } catch (error) {
+            console.error('❌ Standing instruction worker error:', error);
+        } finally {
+            isTicking = false;
+        }
+    }, STANDING_POLL_INTERVAL);
+}
+
+/**
+ * Stop the standing instruction worker
+ */
+export function stopStandingInstructionWorker(): void {
+    if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+    }
+    isRunning = false;
+    console.log('🛑 Standing instruction worker stopped');
+}
@@ -1,4 +1,5 @@
 import { timelockService } from '../services/timelock.service';
+import { leaderService } from '../services/leader.service';
 import { getIO } from '../websocket';
 
 let isRunning = false;
@@ -6,7 +7,7 @@ let intervalId: NodeJS.Timeout | null = null;
 
 /**
  * Time-lock worker that monitors and unlocks transactions
- * Polls every second for unlocked transactions
+ * Polls every second for unlocked transactions; only the instance holding the timelock lease acts
  */
 export async function startTimelockWorker(): Promise<void> {
     if (isRunning) {
@@ -18,6 +19,10 @@ export async function startTimelockWorker(): Promise<void> {
     console.log('🔒 Time-lock worker started (polling every 1s)');
 
     intervalId = setInterval(async () => {
+        if (!leaderService.isLeader('timelock')) {
+            return;
+        }
+
         try {
             const unlocked = await timelockService.processUnlocked();
 
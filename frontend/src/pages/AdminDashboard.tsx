@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 import { useSocket } from '../context/SocketContext';
 import { adminApi, otpApi } from '../services/api';
@@ -40,6 +41,17 @@ interface PendingTransaction {
     createdAt: string;
     fromAccount: { accountNumber: string; tier: string };
     toAccount: { accountNumber: string };
+    sla: {
+        deadline: string;
+        timeToBreachSeconds: number;
+        state: 'OK' | 'WARNING' | 'BREACHED';
+    };
+}
+
+interface QueueControl {
+    mode: 'RUNNING' | 'PAUSED' | 'DRAINING';
+    pausedUrgencies: string[];
+    reason: string | null;
 }
 
 export default function AdminDashboard() {
@@ -50,6 +62,8 @@ export default function AdminDashboard() {
     const [, setQueueStats] = useState<{ queueSize: number; topItems: QueueItem[] }>({ queueSize: 0, topItems: [] });
     const [lockedItems, setLockedItems] = useState<LockedItem[]>([]);
     const [pending, setPending] = useState<PendingTransaction[]>([]);
+    const [queueControl, setQueueControl] = useState<QueueControl | null>(null);
+    const [pauseScope, setPauseScope] = useState(''); // '' = all lanes, else one urgency
     const [loading, setLoading] = useState(true);
 
     // Account creation form
@@ -72,15 +86,17 @@ export default function AdminDashboard() {
 
     const fetchData = useCallback(async () => {
         try {
-            const [accountsRes, queuesRes, pendingRes] = await Promise.all([
+            const [accountsRes, queuesRes, pendingRes, controlRes] = await Promise.all([
                 adminApi.getAccounts(),
                 adminApi.getQueues(),
                 adminApi.getPending(),
+                adminApi.getQueueControl(),
             ]);
             setAccounts(accountsRes.data.accounts);
             setQueueStats(queuesRes.data.priorityQueue);
             setLockedItems(queuesRes.data.timelockHeap);
             setPending(pendingRes.data.pending);
+            setQueueControl(controlRes.data);
         } catch (err) {
             console.error('Failed to fetch data:', err);
         } finally {
@@ -100,12 +116,18 @@ export default function AdminDashboard() {
             socket.on('queue:stats', (stats) => setQueueStats(stats));
             socket.on('timelock:update', fetchData);
             socket.on('transaction:new', fetchData);
+            socket.on('queue:sla_warning', fetchData);
+            socket.on('queue:sla_breach', fetchData);
+            socket.on('queue:control', (state) => setQueueControl(state));
 
             return () => {
                 socket.off('queue:update');
                 socket.off('queue:stats');
                 socket.off('timelock:update');
                 socket.off('transaction:new');
+                socket.off('queue:sla_warning');
+                socket.off('queue:sla_breach');
+                socket.off('queue:control');
             };
         }
     }, [socket, fetchData]);
@@ -168,6 +190,29 @@ export default function AdminDashboard() {
         }
     };
 
+    // Set while settlement is paused (globally or per lane) or draining
+    const restriction = queueControl
+        && (queueControl.mode !== 'RUNNING' || queueControl.pausedUrgencies.length > 0)
+        ? queueControl
+        : null;
+
+    const handleToggleQueue = async () => {
+        try {
+            if (restriction) {
+                await adminApi.resumeQueue();
+            } else {
+                const reason = window.prompt(`Reason for pausing ${pauseScope || 'all'} settlement?`);
+                if (!reason) {
+                    return;
+                }
+                await adminApi.pauseQueue(reason, pauseScope ? [pauseScope] : undefined);
+            }
+            fetchData();
+        } catch (err: unknown) {
+            alert((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to update queue');
+        }
+    };
+
     const formatCurrency = (value: string) => {
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
@@ -175,6 +220,13 @@ export default function AdminDashboard() {
         }).format(parseFloat(value));
     };
 
+    // SLA time left (or overdue): "12m" / "1h 05m"
+    const formatDuration = (seconds: number) => {
+        const minutes = Math.floor(Math.abs(seconds) / 60);
+        if (minutes < 60) return `${minutes}m`;
+        return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+    };
+
     const getCountdown = (unlockAt: string) => {
         const diff = new Date(unlockAt).getTime() - Date.now();
         if (diff <= 0) return 'Unlocking...';
@@ -374,7 +426,33 @@ export default function AdminDashboard() {
                             <h3 style={{ margin: 0 }}>
                                 ⏳ Pending Completion
                                 <span className="queue-count">{pending.length}</span>
+                                {restriction && (
+                                    <span className="badge badge-warning" title={restriction.reason ?? undefined}>
+                                        {restriction.mode === 'RUNNING'
+                                            ? `${restriction.pausedUrgencies.join(', ')} paused`
+                                            : restriction.mode}
+                                    </span>
+                                )}
                             </h3>
+                            {!restriction && (
+                                <select
+                                    value={pauseScope}
+                                    onChange={(e) => setPauseScope(e.target.value)}
+                                    title="Lanes to pause"
+                                >
+                                    <option value="">All lanes</option>
+                                    <option value="NORMAL">Normal</option>
+                                    <option value="EMI">EMI</option>
+                                    <option value="MEDICAL">Medical</option>
+                                </select>
+                            )}
+                            <button
+                                onClick={handleToggleQueue}
+                                className="btn btn-secondary"
+                                style={{ whiteSpace: 'nowrap' }}
+                            >
+                                {restriction ? '▶ Resume' : '⏸ Pause'}
+                            </button>
                             <button
                                 onClick={handleProcessNext}
                                 className="btn btn-success"
@@ -396,6 +474,7 @@ export default function AdminDashboard() {
                                             <th>Sender → Recv</th>
                                             <th>Amount</th>
                                             <th>Eff. Priority</th>
+                                            <th>SLA</th>
                                             <th>Status</th>
                                         </tr>
                                     </thead>
@@ -413,6 +492,13 @@ export default function AdminDashboard() {
                                                 <td style={{ color: 'var(--color-accent-primary)', fontWeight: 600 }}>
                                                     {tx.effectivePriority != null ? tx.effectivePriority.toFixed(1) : tx.basePriority.toFixed(1)}
                                                 </td>
+                                                <td>
+                                                    <span className={`badge badge-${tx.sla.state === 'BREACHED' ? 'danger' : tx.sla.state === 'WARNING' ? 'warning' : 'success'}`}>
+                                                        {tx.sla.state === 'BREACHED'
+                                                            ? `Late ${formatDuration(tx.sla.timeToBreachSeconds)}`
+                                                            : `${formatDuration(tx.sla.timeToBreachSeconds)} left`}
+                                                    </span>
+                                                </td>
                                                 <td>
                                                     <span className={`badge badge-${tx.status === 'RESERVED' ? 'warning' : 'info'}`}>
                                                         {tx.status === 'PENDING_MANUAL' ? 'Waiting' : tx.status}
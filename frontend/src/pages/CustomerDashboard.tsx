@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 import { useSocket } from '../context/SocketContext';
 import { customerApi } from '../services/api';
@@ -16,6 +17,8 @@ interface Account {
 
 interface Transaction {
     id: string;
+    reference: string;
+    remark: string | null;
     amount: string;
     status: string;
     urgency: string;
@@ -24,12 +27,27 @@ interface Transaction {
     toAccount: { accountNumber: string };
 }
 
+interface FeeQuote {
+    fee: string;
+    totalDebit: string;
+    waiver: string | null;
+}
+
+interface PaymentRequest {
+    id: string;
+    amount: string;
+    note: string | null;
+    expiresAt: string;
+    requesterAccount: { accountNumber: string; fullName: string };
+}
+
 export default function CustomerDashboard() {
     const { user, logout } = useAuth();
     const { socket, isConnected } = useSocket();
 
     const [account, setAccount] = useState<Account | null>(null);
     const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [paymentRequests, setPaymentRequests] = useState<PaymentRequest[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
 
@@ -37,6 +55,7 @@ export default function CustomerDashboard() {
     const [toAccountNumber, setToAccountNumber] = useState('');
     const [amount, setAmount] = useState('');
     const [urgency, setUrgency] = useState('NORMAL');
+    const [remark, setRemark] = useState('');
     const [transferLoading, setTransferLoading] = useState(false);
     const [transferSuccess, setTransferSuccess] = useState('');
     const [transferError, setTransferError] = useState('');
@@ -54,20 +73,30 @@ export default function CustomerDashboard() {
                 fetchData(); // Refresh account balance
             });
 
+            // Someone asked us for money, or withdrew their request
+            socket.on('payment_request:new', () => fetchData());
+            socket.on('payment_request:cancelled', (data) => {
+                setPaymentRequests(prev => prev.filter(r => r.id !== data.id));
+            });
+
             return () => {
                 socket.off('transaction:status');
+                socket.off('payment_request:new');
+                socket.off('payment_request:cancelled');
             };
         }
     }, [socket]);
 
     const fetchData = async () => {
         try {
-            const [accountRes, txRes] = await Promise.all([
+            const [accountRes, txRes, requestsRes] = await Promise.all([
                 customerApi.getAccount(),
                 customerApi.getTransactions(),
+                customerApi.getPaymentRequests(),
             ]);
             setAccount(accountRes.data);
             setTransactions(txRes.data.transactions);
+            setPaymentRequests(requestsRes.data.incoming);
         } catch (err: any) {
             setError(err.response?.data?.error || 'Failed to load data');
         } finally {
@@ -82,15 +111,26 @@ export default function CustomerDashboard() {
         setTransferLoading(true);
 
         try {
+            // Confirm any fee up front; maxFee makes the server refuse if it has gone up since
+            const quoteRes = await customerApi.quoteTransfer(parseFloat(amount), urgency);
+            const quote: FeeQuote = quoteRes.data.quote;
+            if (parseFloat(quote.fee) > 0
+                && !window.confirm(`A fee of ${formatCurrency(quote.fee)} applies (total ${formatCurrency(quote.totalDebit)}). Continue?`)) {
+                return;
+            }
+
             const response = await customerApi.transfer(
                 toAccountNumber,
                 parseFloat(amount),
-                urgency
+                urgency,
+                remark.trim() || undefined,
+                parseFloat(quote.fee)
             );
-            setTransferSuccess(response.data.message);
+            setTransferSuccess(`${response.data.message} (Ref: ${response.data.transaction.reference})`);
             setToAccountNumber('');
             setAmount('');
             setUrgency('NORMAL');
+            setRemark('');
             fetchData();
         } catch (err: any) {
             setTransferError(err.response?.data?.error || 'Transfer failed');
@@ -135,8 +175,38 @@ export default function CustomerDashboard() {
         try {
             await customerApi.cancelTransaction(txId);
             fetchData();
-        } catch (err: any) {
-            alert(err.response?.data?.error || 'Failed to cancel transaction');
+        } catch (err: unknown) {
+            alert((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to cancel transaction');
+        }
+    };
+
+    const handlePayRequest = async (request: PaymentRequest) => {
+        const payee = request.requesterAccount.fullName || request.requesterAccount.accountNumber;
+        try {
+            // Same quote-then-confirm as a transfer; maxFee makes the server refuse if the fee has gone up
+            const quoteRes = await customerApi.quoteTransfer(parseFloat(request.amount), 'NORMAL');
+            const quote: FeeQuote = quoteRes.data.quote;
+            const feeNote = parseFloat(quote.fee) > 0
+                ? ` A fee of ${formatCurrency(quote.fee)} applies (total ${formatCurrency(quote.totalDebit)}).`
+                : '';
+            if (!window.confirm(`Pay ${formatCurrency(request.amount)} to ${payee}?${feeNote}`)) {
+                return;
+            }
+
+            const response = await customerApi.acceptPaymentRequest(request.id, 'NORMAL', parseFloat(quote.fee));
+            setTransferSuccess(response.data.message);
+            fetchData();
+        } catch (err: unknown) {
+            alert((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to pay request');
+        }
+    };
+
+    const handleDeclineRequest = async (id: string) => {
+        try {
+            await customerApi.declinePaymentRequest(id);
+            setPaymentRequests(prev => prev.filter(r => r.id !== id));
+        } catch (err: unknown) {
+            alert((axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to decline request');
         }
     };
 
@@ -217,6 +287,17 @@ export default function CustomerDashboard() {
                                 </select>
                             </div>
 
+                            <div className="form-group">
+                                <label>Remark (optional)</label>
+                                <input
+                                    type="text"
+                                    value={remark}
+                                    onChange={(e) => setRemark(e.target.value)}
+                                    placeholder="e.g. Rent for October"
+                                    maxLength={140}
+                                />
+                            </div>
+
                             {parseFloat(amount) > 10000 && (
                                 <div className="alert alert-warning">
                                     ⏱️ Transfers above ₹10,000 require a 30-second time-lock
@@ -256,6 +337,43 @@ export default function CustomerDashboard() {
                     </div>
                 </div>
 
+                {/* Incoming Payment Requests */}
+                {paymentRequests.length > 0 && (
+                    <div className="card requests-card">
+                        <h3>Payment Requests ({paymentRequests.length})</h3>
+                        {paymentRequests.map((request) => (
+                            <div key={request.id} className="pending-item">
+                                <div className="pending-item-header">
+                                    <strong>
+                                        {request.requesterAccount.fullName || request.requesterAccount.accountNumber}
+                                    </strong>
+                                    <span>{formatCurrency(request.amount)}</span>
+                                </div>
+                                <div className="pending-item-details">
+                                    {request.note && <div>{request.note}</div>}
+                                    <div>
+                                        {request.requesterAccount.accountNumber} · Expires {formatDate(request.expiresAt)}
+                                    </div>
+                                </div>
+                                <div className="pending-item-actions">
+                                    <button
+                                        onClick={() => handlePayRequest(request)}
+                                        className="btn btn-primary"
+                                    >
+                                        Pay
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeclineRequest(request.id)}
+                                        className="btn btn-secondary"
+                                    >
+                                        Decline
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Transactions Table */}
                 <div className="card transactions-card">
                     <h3>Recent Transactions</h3>
@@ -266,6 +384,7 @@ export default function CustomerDashboard() {
                                     <th>Date</th>
                                     <th>Type</th>
                                     <th>Account</th>
+                                    <th>Reference</th>
                                     <th>Amount</th>
                                     <th>Urgency</th>
                                     <th>Status</th>
@@ -275,7 +394,7 @@ export default function CustomerDashboard() {
                             <tbody>
                                 {transactions.length === 0 ? (
                                     <tr>
-                                        <td colSpan={7} style={{ textAlign: 'center', padding: '2rem' }}>
+                                        <td colSpan={8} style={{ textAlign: 'center', padding: '2rem' }}>
                                             No transactions yet
                                         </td>
                                     </tr>
@@ -293,6 +412,7 @@ export default function CustomerDashboard() {
                                                 <td>
                                                     {isSent ? tx.toAccount.accountNumber : tx.fromAccount.accountNumber}
                                                 </td>
+                                                <td title={tx.remark || undefined}>{tx.reference}</td>
                                                 <td className={isSent ? 'text-danger' : 'text-success'}>
                                                     {isSent ? '-' : '+'}{formatCurrency(tx.amount)}
                                                 </td>
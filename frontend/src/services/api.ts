@@ -78,14 +78,25 @@ export const adminApi = {
 
     processNext: () =>
         api.post('/admin/process-next'),
+
+    getQueueControl: () => api.get('/admin/queue/control'),
+
+    pauseQueue: (reason: string, urgencies?: string[]) =>
+        api.post('/admin/queue/pause', { reason, urgencies }),
+
+    resumeQueue: () =>
+        api.post('/admin/queue/resume', {}),
 };
 
 // Customer APIs
 export const customerApi = {
     getAccount: () => api.get('/customer/account'),
 
-    transfer: (toAccountNumber: string, amount: number, urgency?: string) =>
-        api.post('/customer/transfer', { toAccountNumber, amount, urgency }),
+    quoteTransfer: (amount: number, urgency: string) =>
+        api.post('/customer/transfer/quote', { amount, urgency }),
+
+    transfer: (toAccountNumber: string, amount: number, urgency?: string, remark?: string, maxFee?: number) =>
+        api.post('/customer/transfer', { toAccountNumber, amount, urgency, remark, maxFee }),
 
     getTransactions: () => api.get('/customer/transactions'),
 
@@ -93,6 +104,14 @@ export const customerApi = {
 
     cancelTransaction: (id: string) =>
         api.post(`/customer/transactions/${id}/cancel`),
+
+    getPaymentRequests: () => api.get('/customer/payment-requests'),
+
+    acceptPaymentRequest: (id: string, urgency?: string, maxFee?: number) =>
+        api.post(`/customer/payment-requests/${id}/accept`, { urgency, maxFee }),
+
+    declinePaymentRequest: (id: string) =>
+        api.post(`/customer/payment-requests/${id}/decline`),
 };
 
 export default api;